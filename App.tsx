@@ -1,53 +1,540 @@
 
-import React, { useState, useEffect } from 'react';
-import { createWorker } from 'tesseract.js';
-import { WebtoonImage, AppMode, TextRegion, SUPPORTED_LANGUAGES } from './types';
-import { translateOcrResults } from './services/geminiService';
-import ImageCanvas from './components/ImageCanvas';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { WebtoonImage, AppMode, TextRegion, RegionTranslation, RegionComment, ReviewStatus, MergedImage, StripTile, ProjectSettings, ExportOptions, TranslationContext, TranslationRunOptions, TranslationProviderConfig, OcrEngineConfig, OcrEngineId, TranslationMemoryOptions, ReadingOrderOptions, SfxHandling, PreviewMode, GlossaryEntry, GlossaryViolation, ProposedRegion, DetectionMethod, CleanMode, StylePreset, CustomFont, TextStyle, SUPPORTED_LANGUAGES } from './types';
+import {
+  translateOcrResults,
+  getTranslationProvider,
+  loadProviderApiKey,
+  saveProviderApiKey,
+  DEFAULT_PROVIDER_CONFIG
+} from './services/translationService';
+import {
+  ProjectSnapshot,
+  RestoredProject,
+  PROJECT_FILE_EXTENSION,
+  createSnapshot,
+  restoreSnapshot,
+  downloadProject,
+  readProjectFile,
+  saveAutosave,
+  loadAutosave
+} from './services/projectService';
+import { checkGlossary } from './services/glossaryService';
+import { detectTextRegions, DEFAULT_DETECTION_OPTIONS } from './services/regionDetection';
+import { renderCleanedPreview, CLEAN_MODES } from './services/textCleaning';
+import { regionToPixels } from './services/imageUtils';
+import { resolveTextPlacement, measureRegionLayout, TextPlacement } from './services/textRenderer';
+import { buildStrip, PixelRect } from './services/stripTiles';
+import { recognizeRegions, preprocessRegion, getOcrEngine, isLowConfidence, tesseractLangCode, OCR_ENGINES, DEFAULT_OCR_CONFIG } from './services/ocrService';
+import { DEFAULT_PREPROCESS_OPTIONS } from './services/ocrPreprocess';
+import { DEFAULT_MEMORY_OPTIONS, loadMemory, findMemoryMatches, saveMemoryEntries } from './services/translationMemory';
+import { ScriptChange, ScriptRow, UnmatchedRow, diffScript, applyScriptChanges } from './services/scriptExchange';
+import { exportStrip, DEFAULT_EXPORT_OPTIONS } from './services/exportService';
+import { previewTileKey, renderPreviewTiles } from './services/livePreview';
+import { ImportSource, sourcesFromFileList, collectDroppedSources, expandSources, createPageImage, pageFingerprint, findDuplicatePages, naturalCompare } from './services/pageImport';
+import {
+  getTranslation,
+  translatedTextOf,
+  displayTextOf,
+  withTranslation,
+  translationUpdate,
+  countTranslationStatuses,
+  normalizeTargetLangs
+} from './services/regionTranslations';
+import { reviewStatusOf, reviewStatusName, withReviewStatus, countUnapproved, countReviewStatuses, reviewableRegions, loadReviewerName, saveReviewerName } from './services/reviewService';
+import {
+  EMPTY_TRANSLATION_CONTEXT,
+  DEFAULT_RUN_OPTIONS,
+  IMAGE_BATCH_SIZE,
+  buildTranslationItems,
+  buildRequestContext,
+  summarizeChapterEnding
+} from './services/translationContext';
+import { REGION_TYPES, DEFAULT_SFX_HANDLING, isSfxCaption, regionTypeInfo, regionTypeOf, regionTypeUpdate, resolveCleanMode } from './services/regionTypes';
+import { DEFAULT_READING_ORDER, READING_DIRECTIONS, detectPanels, pagePanels, orderRegions, renumberRegions, moveRegionInOrder } from './services/readingOrder';
+import { registerCustomFont, fontFamilyFromFileName } from './services/fontService';
+import { HistoryState, EMPTY_HISTORY, pushHistory, undoHistory, redoHistory, jumpToHistory, describeRegionUpdate } from './services/historyService';
+import ImageCanvas, { isTypingTarget } from './components/ImageCanvas';
+import ProviderSettings from './components/ProviderSettings';
+import GlossaryPanel from './components/GlossaryPanel';
+import StyleControls from './components/StyleControls';
+import HistoryPanel from './components/HistoryPanel';
+import ExportDialog from './components/ExportDialog';
+import TranslationContextPanel from './components/TranslationContextPanel';
+import OcrEngineSettings from './components/OcrEngineSettings';
+import OcrDebugView, { OcrDebugPreview } from './components/OcrDebugView';
+import TranslationMemoryPanel from './components/TranslationMemoryPanel';
+import ScriptPanel from './components/ScriptPanel';
+import ScriptImportDialog from './components/ScriptImportDialog';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import RegionListPanel, { ReviewStatusBadge } from './components/RegionListPanel';
+import RegionComments from './components/RegionComments';
+import ReadingOrderPanel from './components/ReadingOrderPanel';
+import PreviewControls from './components/PreviewControls';
+import ZoomViewport from './components/ZoomViewport';
 
 const App: React.FC = () => {
   const [images, setImages] = useState<WebtoonImage[]>([]);
-  const [mergedImage, setMergedImage] = useState<{ url: string, regions: TextRegion[] } | null>(null);
+  const [pageFingerprints, setPageFingerprints] = useState<Record<string, string>>({});
+  const [dropActive, setDropActive] = useState(false);
+  const [draggingPage, setDraggingPage] = useState<{ id: string, overId: string | null } | null>(null);
+  const [mergedImage, setMergedImage] = useState<MergedImage | null>(null);
   const [sourceLang, setSourceLang] = useState('Korean');
   const [targetLang, setTargetLang] = useState('Turkish');
+  const [targetLangs, setTargetLangs] = useState<string[]>(['Turkish']);
+  const [providerConfig, setProviderConfig] = useState<Omit<TranslationProviderConfig, 'apiKey'>>(DEFAULT_PROVIDER_CONFIG);
+  const [apiKey, setApiKey] = useState(() => loadProviderApiKey(DEFAULT_PROVIDER_CONFIG.providerId));
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [proposals, setProposals] = useState<ProposedRegion[]>([]);
+  const [detectionOptions, setDetectionOptions] = useState(DEFAULT_DETECTION_OPTIONS);
+  const [showCleanPreview, setShowCleanPreview] = useState(false);
+  const [cleanPreviews, setCleanPreviews] = useState<Record<string, string>>({});
+  const [showTextPreview, setShowTextPreview] = useState(false);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const cleanPreviewCache = useRef({ tiles: null as StripTile[] | null, previews: new Map<string, string>() });
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('original');
+  const [previewSplit, setPreviewSplit] = useState(50);
+  const [hideChrome, setHideChrome] = useState(false);
+  const [translatedTiles, setTranslatedTiles] = useState<Record<string, string>>({});
+  const [previewRendering, setPreviewRendering] = useState(false);
+  const translatedTileCache = useRef({ tiles: null as StripTile[] | null, entries: new Map<string, { key: string, url: string }>() });
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState('');
-  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [selectedRegionIds, setSelectedRegionIds] = useState<string[]>([]);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
   const [mode, setMode] = useState<AppMode>(AppMode.UPLOAD);
+  const [pendingRestore, setPendingRestore] = useState<ProjectSnapshot | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [translationContext, setTranslationContext] = useState<TranslationContext>(EMPTY_TRANSLATION_CONTEXT);
+  const [runOptions, setRunOptions] = useState<TranslationRunOptions>(DEFAULT_RUN_OPTIONS);
+  const [ocrConfig, setOcrConfig] = useState<OcrEngineConfig>(DEFAULT_OCR_CONFIG);
+  const [ocrDebug, setOcrDebug] = useState<OcrDebugPreview | null>(null);
+  const ocrAbort = useRef<AbortController | null>(null);
+  const [memoryOptions, setMemoryOptions] = useState<TranslationMemoryOptions>(DEFAULT_MEMORY_OPTIONS);
+  const [memoryRevision, setMemoryRevision] = useState(0);
+  // Elle değiştirilen çeviriler alan odaktan çıkınca belleğe yazılır
+  const editedTranslations = useRef(new Set<string>());
+  const [scriptImport, setScriptImport] = useState<{ fileName: string, changes: ScriptChange[], unmatched: UnmatchedRow[] } | null>(null);
+  const [reviewerName, setReviewerName] = useState(loadReviewerName);
+  const [scrollRequest, setScrollRequest] = useState<{ id: string } | null>(null);
+  const [readingOrder, setReadingOrder] = useState<ReadingOrderOptions>(DEFAULT_READING_ORDER);
+  const [sfxHandling, setSfxHandling] = useState<SfxHandling>(DEFAULT_SFX_HANDLING);
+  const [showOrder, setShowOrder] = useState(false);
+  // Panel tespiti şerit ve okuma yönü değişene kadar yeniden yapılmaz
+  const panelCache = useRef({ tiles: null as StripTile[] | null, direction: '', panels: [] as PixelRect[] });
+
+  // Kenar çubuğu çoklu seçimde son seçilen kutuyu düzenler
+  const selectedRegionId = selectedRegionIds[selectedRegionIds.length - 1] ?? null;
+  const setSelectedRegionId = (id: string | null) => setSelectedRegionIds(id ? [id] : []);
+
+  const projectSettings: ProjectSettings = { sourceLang, targetLang, targetLangs, translation: providerConfig, glossary, stylePresets, exportOptions, context: translationContext, ocr: ocrConfig, memory: memoryOptions, readingOrder, sfxHandling };
+
+  const textPlacements = useMemo(() => {
+    if (!showTextPreview || !mergedImage) return undefined;
+    const result: Record<string, TextPlacement> = {};
+    mergedImage.regions.forEach(r => {
+      result[r.id] = resolveTextPlacement(r, regionToPixels(r, mergedImage.width, mergedImage.height), mergedImage, stylePresets, sfxHandling);
+    });
+    return result;
+  }, [showTextPreview, mergedImage, stylePresets, sfxHandling]);
+
+  // Sözlük kurallarını çiğneyen kutucuklar kenar çubuğunda işaretlenir
+  const glossaryViolations = useMemo(() => {
+    const result: Record<string, GlossaryViolation[]> = {};
+    mergedImage?.regions.forEach(r => {
+      const violations = checkGlossary(r.originalText, translatedTextOf(r, targetLang), glossary);
+      if (violations.length > 0) result[r.id] = violations;
+    });
+    return result;
+  }, [mergedImage, glossary, targetLang]);
+
+  // Taşan dizgiler editörde uyarı olarak gösterilir
+  const overflowingRegions = useMemo(() => {
+    const result = new Set<string>();
+    if (!mergedImage) return result;
+    mergedImage.regions.forEach(r => {
+      const text = displayTextOf(r, targetLang);
+      if (!text.trim()) return;
+      const placement = resolveTextPlacement(r, regionToPixels(r, mergedImage.width, mergedImage.height), mergedImage, stylePresets, sfxHandling);
+      const layout = measureRegionLayout(text, placement.rect, placement.style);
+      if (layout?.overflow) result.add(r.id);
+    });
+    return result;
+  }, [mergedImage, stylePresets, sfxHandling, targetLang]);
+
+  const regionWarnings = useMemo(() => {
+    const result: Record<string, string> = {};
+    overflowingRegions.forEach(id => { result[id] = 'Metin kutuya sığmıyor'; });
+    Object.keys(glossaryViolations).forEach(id => {
+      result[id] = result[id] ? `${result[id]} · Sözlük uyarısı` : 'Sözlük uyarısı';
+    });
+    mergedImage?.regions.forEach(r => {
+      const { translationStatus, translationError } = getTranslation(r, targetLang);
+      if (translationStatus !== 'failed') return;
+      const warning = `Çeviri başarısız: ${translationError || 'bilinmeyen hata'}`;
+      result[r.id] = result[r.id] ? `${result[r.id]} · ${warning}` : warning;
+    });
+    mergedImage?.regions.forEach(r => {
+      if (!isLowConfidence(r)) return;
+      const warning = `Düşük OCR güveni (%${Math.round(r.ocrConfidence! * 100)})`;
+      result[r.id] = result[r.id] ? `${result[r.id]} · ${warning}` : warning;
+    });
+    mergedImage?.regions.forEach(r => {
+      const { memoryMatch } = getTranslation(r, targetLang);
+      if (memoryMatch === undefined || memoryMatch >= 1) return;
+      const warning = `Bellekten bulanık eşleşme (%${Math.round(memoryMatch * 100)})`;
+      result[r.id] = result[r.id] ? `${result[r.id]} · ${warning}` : warning;
+    });
+    return result;
+  }, [overflowingRegions, glossaryViolations, mergedImage, targetLang]);
+
+  // Çeviri çalıştırması tüm hedef dilleri kapsadığı için sayılar diller toplamıdır
+  const translationCounts = useMemo(() => {
+    const counts = { translated: 0, pending: 0, failed: 0 };
+    targetLangs.forEach(lang => {
+      const own = countTranslationStatuses(mergedImage?.regions || [], lang);
+      counts.translated += own.translated;
+      counts.pending += own.pending;
+      counts.failed += own.failed;
+    });
+    return counts;
+  }, [mergedImage, targetLangs]);
+
+  // Dışa aktarmada kaynak metinle basılacak, çevirisi boş kutular
+  const missingTranslations = useMemo(() => {
+    const result: Record<string, number> = {};
+    targetLangs.forEach(lang => {
+      result[lang] = mergedImage?.regions.filter(r => r.originalText.trim() && !translatedTextOf(r, lang).trim()).length || 0;
+    });
+    return result;
+  }, [mergedImage, targetLangs]);
+
+  const unapprovedCounts = useMemo(() => {
+    const result: Record<string, number> = {};
+    targetLangs.forEach(lang => { result[lang] = countUnapproved(mergedImage?.regions || [], lang); });
+    return result;
+  }, [mergedImage, targetLangs]);
+
+  const reviewCounts = useMemo(() => countReviewStatuses(mergedImage?.regions || [], targetLang), [mergedImage, targetLang]);
 
   // Bellek sızıntısını önlemek için ObjectURL'leri temizle
   useEffect(() => {
     return () => {
       images.forEach(img => URL.revokeObjectURL(img.previewUrl));
-      if (mergedImage) URL.revokeObjectURL(mergedImage.url);
+      mergedImage?.tiles.forEach(tile => URL.revokeObjectURL(tile.url));
     };
   }, []);
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files) return;
-    const files = Array.from(e.target.files);
-    
-    const newImages: WebtoonImage[] = await Promise.all(files.map(async (file) => {
-      const url = URL.createObjectURL(file);
-      const dimensions = await new Promise<{w: number, h: number}>((resolve) => {
-        const img = new Image();
-        img.onload = () => resolve({ w: img.width, h: img.height });
-        img.src = url;
+  // Açılışta son oturumu kontrol et; kullanıcı karar verene kadar otomatik kayıt beklemede kalır
+  useEffect(() => {
+    loadAutosave()
+      .then(snapshot => {
+        if (snapshot && (snapshot.pages.length > 0 || snapshot.merged)) {
+          setPendingRestore(snapshot);
+        } else {
+          setAutosaveReady(true);
+        }
+      })
+      .catch(err => {
+        console.error("Otomatik kayıt okunamadı:", err);
+        setAutosaveReady(true);
       });
+  }, []);
 
-      return {
-        id: Math.random().toString(36).substr(2, 9),
-        file,
-        previewUrl: url,
-        regions: [],
-        isProcessing: false,
-        status: 'idle' as const,
-        width: dimensions.w,
-        height: dimensions.h
-      };
-    }));
+  useEffect(() => {
+    if (!autosaveReady) return;
+    const timer = setTimeout(() => {
+      saveAutosave(createSnapshot(images, mergedImage, projectSettings, mode, customFonts))
+        .catch(err => console.error("Otomatik kayıt hatası:", err));
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [autosaveReady, images, mergedImage, sourceLang, targetLang, targetLangs, providerConfig, glossary, stylePresets, exportOptions, translationContext, ocrConfig, memoryOptions, readingOrder, sfxHandling, customFonts, mode]);
+
+  // Editörde düzenlenen dil; listede yoksa projenin dillerine eklenir
+  const selectTargetLang = (lang: string) => {
+    setTargetLang(lang);
+    setTargetLangs(prev => normalizeTargetLangs(prev, lang));
+  };
+
+  // Dil listeden çıkarılsa da kutulardaki çevirileri silinmez; yeniden eklenince geri gelir
+  const changeTargetLangs = (langs: string[]) => {
+    if (langs.length === 0) return;
+    setTargetLangs(langs);
+    if (!langs.includes(targetLang)) setTargetLang(langs[0]);
+  };
+
+  const changeReviewerName = (name: string) => {
+    setReviewerName(name);
+    saveReviewerName(name);
+  };
+
+  const changeProviderConfig = (config: Omit<TranslationProviderConfig, 'apiKey'>) => {
+    if (config.providerId !== providerConfig.providerId) setApiKey(loadProviderApiKey(config.providerId));
+    setProviderConfig(config);
+  };
 
-    setImages(prev => [...prev, ...newImages]);
+  const changeApiKey = (key: string) => {
+    setApiKey(key);
+    saveProviderApiKey(providerConfig.providerId, key);
+  };
+
+  // Temizlik önizlemeleri kutunun konumu ve modu değişmedikçe yeniden hesaplanmaz
+  useEffect(() => {
+    if (!showCleanPreview || !mergedImage) {
+      setCleanPreviews({});
+      return;
+    }
+    if (cleanPreviewCache.current.tiles !== mergedImage.tiles) {
+      cleanPreviewCache.current = { tiles: mergedImage.tiles, previews: new Map() };
+    }
+    const cache = cleanPreviewCache.current.previews;
+    let cancelled = false;
+    (async () => {
+      const next: Record<string, string> = {};
+      for (const region of mergedImage.regions) {
+        if (cancelled) return;
+        const cleanMode = resolveCleanMode(region, sfxHandling);
+        const key = [region.x, region.y, region.width, region.height, cleanMode].join(':');
+        if (!cache.has(key)) cache.set(key, await renderCleanedPreview(mergedImage, region, cleanMode));
+        next[region.id] = cache.get(key)!;
+      }
+      if (!cancelled) setCleanPreviews(next);
+    })().catch(err => console.error("Temizlik önizleme hatası:", err));
+    return () => { cancelled = true; };
+  }, [showCleanPreview, mergedImage, sfxHandling]);
+
+  // Çeviri önizlemesi düzenleme durulunca yenilenir; yalnızca içeriği değişen sayfalar yeniden çizilir
+  useEffect(() => {
+    if (previewMode === 'original' || !mergedImage) return;
+    const cache = translatedTileCache.current;
+    if (cache.tiles !== mergedImage.tiles) {
+      cache.entries.forEach(entry => URL.revokeObjectURL(entry.url));
+      translatedTileCache.current = { tiles: mergedImage.tiles, entries: new Map() };
+      setTranslatedTiles({});
+    }
+    const entries = translatedTileCache.current.entries;
+    const keys: Record<string, string> = {};
+    mergedImage.tiles.forEach(tile => { keys[tile.pageId] = previewTileKey(mergedImage, tile, targetLang, stylePresets, sfxHandling); });
+    const stale = mergedImage.tiles.filter(tile => entries.get(tile.pageId)?.key !== keys[tile.pageId]);
+    if (stale.length === 0) {
+      setPreviewRendering(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setPreviewRendering(true);
+      renderPreviewTiles(mergedImage, stale, stylePresets, sfxHandling, targetLang, (pageId, url) => {
+        const previous = entries.get(pageId);
+        if (previous) URL.revokeObjectURL(previous.url);
+        entries.set(pageId, { key: keys[pageId], url });
+        setTranslatedTiles(prev => ({ ...prev, [pageId]: url }));
+      }, controller.signal)
+        .catch(err => console.error("Çeviri önizleme hatası:", err))
+        .finally(() => { if (!controller.signal.aborted) setPreviewRendering(false); });
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [previewMode, mergedImage, stylePresets, sfxHandling, targetLang]);
+
+  // Geçmiş yalnızca aynı birleştirilmiş görsel üzerindeki düzenlemeleri kapsar
+  useEffect(() => {
+    setHistory(EMPTY_HISTORY);
+  }, [mergedImage?.tiles]);
+
+  // Ctrl+Z geri al, Ctrl+Shift+Z / Ctrl+Y yinele; metin alanlarında tarayıcının kendi geri alması çalışır
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      // N: sıradaki çevrilmemiş kutu, Shift+N: önceki
+      if (key === 'n' && !(e.ctrlKey || e.metaKey || e.altKey)) {
+        e.preventDefault();
+        jumpToUntranslated(e.shiftKey ? -1 : 1);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const applyProject = (project: RestoredProject) => {
+    images.forEach(img => URL.revokeObjectURL(img.previewUrl));
+    mergedImage?.tiles.forEach(tile => URL.revokeObjectURL(tile.url));
+    setImages(project.images);
+    setMergedImage(project.mergedImage);
+    setSourceLang(project.settings.sourceLang);
+    setTargetLang(project.settings.targetLang);
+    setTargetLangs(normalizeTargetLangs(project.settings.targetLangs, project.settings.targetLang));
+    // Eski sürümle kaydedilmiş projelerde sağlayıcı ayarı bulunmaz
+    changeProviderConfig(project.settings.translation || DEFAULT_PROVIDER_CONFIG);
+    setGlossary(project.settings.glossary || []);
+    setStylePresets(project.settings.stylePresets || []);
+    setExportOptions({ ...DEFAULT_EXPORT_OPTIONS, ...project.settings.exportOptions });
+    setTranslationContext({ ...EMPTY_TRANSLATION_CONTEXT, ...project.settings.context });
+    // Ön işleme ayarları sonradan eklendi; eski projelerde varsayılanlarla tamamlanır
+    setOcrConfig({
+      ...DEFAULT_OCR_CONFIG,
+      ...project.settings.ocr,
+      preprocess: { ...DEFAULT_PREPROCESS_OPTIONS, ...project.settings.ocr?.preprocess }
+    });
+    setMemoryOptions({ ...DEFAULT_MEMORY_OPTIONS, ...project.settings.memory });
+    // Eski projelerde elle verilmiş sıra korunur; otomatik sıralama kapalı başlar
+    setReadingOrder(project.settings.readingOrder || { ...DEFAULT_READING_ORDER, auto: false });
+    setSfxHandling(project.settings.sfxHandling || DEFAULT_SFX_HANDLING);
+    setCustomFonts(project.fonts);
+    project.fonts.forEach(font => registerCustomFont(font).catch(err => console.error("Font yüklenemedi:", err)));
+    setSelectedRegionId(null);
+    setProposals([]);
+    setMode(project.mode);
+  };
+
+  const uploadFont = async (file: File) => {
+    const font: CustomFont = { family: fontFamilyFromFileName(file.name), blob: file };
+    try {
+      await registerCustomFont(font);
+      setCustomFonts(prev => [...prev.filter(f => f.family !== font.family), font]);
+      if (selectedRegionId) {
+        const region = mergedImage?.regions.find(r => r.id === selectedRegionId);
+        updateRegion(selectedRegionId, { style: { ...region?.style, fontFamily: font.family } });
+      }
+    } catch (err) {
+      console.error("Font yükleme hatası:", err);
+      alert("Font dosyası okunamadı.");
+    }
+  };
+
+  const savePreset = (name: string, style: Partial<TextStyle>) => {
+    const preset: StylePreset = { id: Math.random().toString(36).substr(2, 9), name, style };
+    setStylePresets(prev => [...prev, preset]);
+    if (selectedRegionId) updateRegion(selectedRegionId, { presetId: preset.id, style: undefined });
+  };
+
+  const deletePreset = (id: string) => {
+    setStylePresets(prev => prev.filter(p => p.id !== id));
+    if (mergedImage && mergedImage.regions.some(r => r.presetId === id)) {
+      commitRegions('Ön ayar silindi', mergedImage.regions.map(r => r.presetId === id ? { ...r, presetId: undefined } : r));
+    }
+  };
+
+  const resolvePendingRestore = (restore: boolean) => {
+    if (restore && pendingRestore) applyProject(restoreSnapshot(pendingRestore));
+    setPendingRestore(null);
+    setAutosaveReady(true);
+  };
+
+  const saveProject = async () => {
+    try {
+      await downloadProject(createSnapshot(images, mergedImage, projectSettings, mode, customFonts));
+    } catch (err) {
+      console.error("Proje kaydetme hatası:", err);
+      alert("Proje kaydedilirken bir hata oluştu.");
+    }
+  };
+
+  const openProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      applyProject(restoreSnapshot(await readProjectFile(file)));
+      setPendingRestore(null);
+      setAutosaveReady(true);
+    } catch (err) {
+      console.error("Proje açma hatası:", err);
+      alert(err instanceof Error ? err.message : "Proje dosyası açılamadı.");
+    }
+  };
+
+  // Arşivler açılır, sayfalar dosya adına göre doğal sırayla mevcut sayfaların sonuna eklenir
+  const importSources = async (sources: ImportSource[]) => {
+    if (sources.length === 0) return;
+    setIsProcessing(true);
+    setProcessingStatus('Dosyalar okunuyor...');
+    try {
+      const { pages, skipped } = await expandSources(sources, setProcessingStatus);
+      const newImages: WebtoonImage[] = [];
+      for (let i = 0; i < pages.length; i++) {
+        setProcessingStatus(`Sayfalar yükleniyor: ${i + 1}/${pages.length}`);
+        try {
+          newImages.push(await createPageImage(pages[i].file));
+        } catch {
+          skipped.push(pages[i].path);
+        }
+      }
+      setImages(prev => [...prev, ...newImages]);
+      if (skipped.length > 0) {
+        alert(`${skipped.length} dosya görsel olmadığı veya okunamadığı için atlandı:\n${skipped.slice(0, 10).join('\n')}${skipped.length > 10 ? '\n...' : ''}`);
+      }
+    } catch (err) {
+      console.error("İçe aktarma hatası:", err);
+      alert(err instanceof Error ? err.message : "Dosyalar içe aktarılamadı.");
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const sources = e.target.files ? sourcesFromFileList(e.target.files) : [];
+    e.target.value = '';
+    importSources(sources);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDropActive(false);
+    if (isProcessing) return;
+    try {
+      importSources(await collectDroppedSources(e.dataTransfer));
+    } catch (err) {
+      console.error("Bırakılan dosyalar okunamadı:", err);
+      alert("Bırakılan dosyalar okunamadı.");
+    }
+  };
+
+  // Kopya tespiti için her sayfanın özeti bir kez hesaplanır
+  useEffect(() => {
+    const missing = images.filter(img => !pageFingerprints[img.id]);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    (async () => {
+      const next: Record<string, string> = {};
+      for (const img of missing) next[img.id] = await pageFingerprint(img.file);
+      if (!cancelled) setPageFingerprints(prev => ({ ...prev, ...next }));
+    })().catch(err => console.error("Sayfa özeti hesaplanamadı:", err));
+    return () => { cancelled = true; };
+  }, [images]);
+
+  const duplicatePages = useMemo(() => findDuplicatePages(images, pageFingerprints), [images, pageFingerprints]);
+
+  const removeDuplicatePages = () => setImages(prev => prev.filter(img => !duplicatePages[img.id]));
+
+  const sortPagesByName = () =>
+    setImages(prev => [...prev].sort((a, b) => naturalCompare(a.file.name, b.file.name)));
+
+  // Sürüklenen sayfa hedef sayfanın yerine geçer; aradakiler bir kayar
+  const reorderPage = (draggedId: string, targetId: string) => {
+    const from = images.findIndex(img => img.id === draggedId);
+    const to = images.findIndex(img => img.id === targetId);
+    if (from < 0 || to < 0 || from === to) return;
+    const newImages = [...images];
+    const [dragged] = newImages.splice(from, 1);
+    newImages.splice(to, 0, dragged);
+    setImages(newImages);
   };
 
   const moveImage = (index: number, direction: 'up' | 'down') => {
@@ -58,117 +545,356 @@ const App: React.FC = () => {
     setImages(newImages);
   };
 
-  const mergeImagesOnly = async () => {
+  // Sayfalar tek bir görsele çizilmez; şerit, sayfaların ortak koordinat sistemindeki yerleşimidir
+  const mergeImagesOnly = () => {
     if (images.length === 0) return;
+    mergedImage?.tiles
+      .filter(tile => !images.some(img => img.previewUrl === tile.url))
+      .forEach(tile => URL.revokeObjectURL(tile.url));
+    setMergedImage({ ...buildStrip(images), regions: [] });
+    setProposals([]);
+    setMode(AppMode.MERGED_EDITOR);
+  };
+
+  const runAutoDetect = async () => {
+    if (!mergedImage) return;
     setIsProcessing(true);
-    setProcessingStatus('Paneller birleştiriliyor...');
+    setProcessingStatus('Metin bölgeleri algılanıyor...');
+
+    try {
+      const detected = await detectTextRegions(mergedImage, mergedImage.regions, {
+        ...detectionOptions,
+        langCode: tesseractLangCode(sourceLang),
+        onProgress: setProcessingStatus
+      });
+      setProposals(detected);
+      if (detected.length === 0) alert("Yeni bir metin bölgesi bulunamadı.");
+    } catch (err) {
+      console.error("Algılama Hatası:", err);
+      alert("Otomatik algılama sırasında bir hata oluştu.");
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
+  };
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const toggleProposal = (id: string) =>
+    setProposals(prev => prev.map(p => p.id === id ? { ...p, accepted: !p.accepted } : p));
 
-    const maxWidth = Math.max(...images.map(img => img.width || 0));
-    const totalHeight = images.reduce((sum, img) => sum + (img.height || 0), 0);
+  const cachedPanels = (strip: MergedImage) => {
+    const cache = panelCache.current;
+    return cache.tiles === strip.tiles && cache.direction === readingOrder.direction ? cache.panels : null;
+  };
 
-    canvas.width = maxWidth;
-    canvas.height = totalHeight;
+  const findPanels = async (strip: MergedImage, onProgress?: (status: string) => void) => {
+    const cached = cachedPanels(strip);
+    if (cached) return cached;
+    const panels = await detectPanels(strip, readingOrder.direction, onProgress);
+    panelCache.current = { tiles: strip.tiles, direction: readingOrder.direction, panels };
+    return panels;
+  };
 
-    let currentY = 0;
-    for (const imgData of images) {
-      const img = new Image();
-      img.src = imgData.previewUrl;
-      await new Promise(r => img.onload = r);
-      ctx.drawImage(img, 0, currentY, imgData.width!, imgData.height!);
-      currentY += imgData.height!;
-    }
+  // Otomatik sıralama açıkken paneller arka planda önceden bulunur; kutu eklemek beklemez
+  useEffect(() => {
+    if (!mergedImage || !readingOrder.auto || cachedPanels(mergedImage)) return;
+    findPanels(mergedImage).catch(err => console.error("Panel tespiti hatası:", err));
+  }, [mergedImage?.tiles, readingOrder]);
 
-    const mergedUrl = canvas.toDataURL('image/jpeg', 0.95);
-    setMergedImage({ url: mergedUrl, regions: [] });
-    setMode(AppMode.MERGED_EDITOR);
-    setIsProcessing(false);
-    setProcessingStatus('');
+  // Kutu eklenince/silinince sıra numaraları yeniden verilir; paneller henüz bulunmadıysa sayfalar kullanılır
+  const sequenceRegions = (regions: TextRegion[]) => {
+    if (!mergedImage || !readingOrder.auto) return renumberRegions(regions);
+    return orderRegions(regions, readingOrder.direction, cachedPanels(mergedImage) || pagePanels(mergedImage), mergedImage);
   };
 
-  const runOcrOnSelectedRegions = async () => {
+  const applyReadingOrder = async () => {
     if (!mergedImage || mergedImage.regions.length === 0) return;
     setIsProcessing(true);
-    setProcessingStatus('Korece OCR motoru hazırlanıyor...');
+    try {
+      const panels = await findPanels(mergedImage, setProcessingStatus);
+      const name = READING_DIRECTIONS.find(d => d.id === readingOrder.direction)!.name;
+      commitRegions(`Okuma sırası: ${name}`, orderRegions(mergedImage.regions, readingOrder.direction, panels, mergedImage));
+    } catch (err) {
+      console.error("Panel tespiti hatası:", err);
+      alert("Okuma sırası belirlenirken bir hata oluştu.");
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
+  };
 
-    const langCodeMap: Record<string, string> = { 'Korean': 'kor', 'English': 'eng', 'Japanese': 'jpn', 'Chinese': 'chi_sim', 'Turkish': 'tur' };
-    const targetLangCode = langCodeMap[sourceLang] || 'kor';
+  // Elle verilen sıra otomatik sıralamayla ezilmesin diye otomatik sıralama kapatılır
+  const reorderRegion = (draggedId: string, targetId: string) => {
+    if (!mergedImage) return;
+    commitRegions('Sıra değiştirildi', moveRegionInOrder(mergedImage.regions, draggedId, targetId));
+    setReadingOrder(prev => ({ ...prev, auto: false }));
+  };
+
+  const acceptProposals = () => {
+    if (!mergedImage) return;
+    const accepted = proposals.filter(p => p.accepted);
+    const newRegions: TextRegion[] = accepted.map((p, i) => ({
+      id: p.id,
+      x: p.x,
+      y: p.y,
+      width: p.width,
+      height: p.height,
+      originalText: '',
+      translations: {},
+      order: mergedImage.regions.length + i + 1
+    }));
+    commitRegions(`${newRegions.length} öneri kabul edildi`, sequenceRegions([...mergedImage.regions, ...newRegions]));
+    setProposals([]);
+  };
+
+  // Gemini görsel OCR'ı çeviri sağlayıcısıyla aynı anahtarı kullanır
+  const geminiApiKey = () => providerConfig.providerId === 'gemini' ? apiKey : loadProviderApiKey('gemini');
+
+  // ids verilmezse tüm kutular, engineId verilmezse seçili motor kullanılır
+  const runOcr = async (ids?: string[], engineId: OcrEngineId = ocrConfig.engineId) => {
+    if (!mergedImage || mergedImage.regions.length === 0) return;
+    const targets = ids ? mergedImage.regions.filter(r => ids.includes(r.id)) : mergedImage.regions;
+    if (targets.length === 0) return;
+    const engine = getOcrEngine(engineId);
+    const controller = new AbortController();
+    ocrAbort.current = controller;
+    setIsProcessing(true);
 
     try {
-      const worker = await createWorker(targetLangCode);
-
-      const updatedRegions = [...mergedImage.regions].sort((a,b) => a.order - b.order);
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      const sourceImg = new Image();
-      sourceImg.src = mergedImage.url;
-      await new Promise(r => sourceImg.onload = r);
-
-      for (let i = 0; i < updatedRegions.length; i++) {
-        setProcessingStatus(`Okunuyor: Kutu ${i + 1}/${updatedRegions.length}`);
-        const region = updatedRegions[i];
-        const rx = (region.x / 100) * sourceImg.width;
-        const ry = (region.y / 100) * sourceImg.height;
-        const rw = (region.width / 100) * sourceImg.width;
-        const rh = (region.height / 100) * sourceImg.height;
-
-        canvas.width = rw;
-        canvas.height = rh;
-        ctx?.drawImage(sourceImg, rx, ry, rw, rh, 0, 0, rw, rh);
-        
-        const { data: { text } } = await worker.recognize(canvas.toDataURL());
-        updatedRegions[i].originalText = text.trim();
+      const { regions: recognized, failed, cancelled } = await recognizeRegions(
+        mergedImage,
+        targets,
+        sourceLang,
+        {
+          engineId,
+          model: engineId === ocrConfig.engineId ? ocrConfig.model : engine.defaultModel,
+          preprocess: engineId === ocrConfig.engineId ? ocrConfig.preprocess : { ...ocrConfig.preprocess, enabled: engine.preprocessByDefault },
+          apiKey: engine.requiresApiKey ? geminiApiKey() : undefined
+        },
+        { signal: controller.signal, onProgress: setProcessingStatus }
+      );
+      // İptal edilse de o ana kadar okunan kutular korunur
+      if (recognized.length > 0) {
+        const byId = new Map(recognized.map(r => [r.id, r]));
+        const label = ids ? `OCR (${engine.name}): ${recognized.length} kutu yeniden okundu` : `OCR: ${recognized.length} kutu okundu`;
+        commitRegions(cancelled ? `${label} (iptal edildi)` : label, mergedImage.regions.map(r => byId.get(r.id) || r));
+      }
+      // Okunamayan kutular seçili bırakılır; kenar çubuğundan tek tek yeniden okunabilir
+      if (failed.length > 0) {
+        setSelectedRegionIds(failed.map(f => f.id));
+        alert(`${failed.length} kutu okunamadı (seçili bırakıldı).\n\n${failed[0].error}`);
       }
-
-      await worker.terminate();
-      setMergedImage({ ...mergedImage, regions: updatedRegions });
     } catch (err) {
       console.error("OCR Hatası:", err);
-      alert("OCR işlemi sırasında bir hata oluştu.");
+      alert(`OCR işlemi sırasında bir hata oluştu: ${err instanceof Error ? err.message : err}`);
     } finally {
+      ocrAbort.current = null;
       setIsProcessing(false);
       setProcessingStatus('');
     }
   };
 
-  const runAiTranslation = async () => {
-    if (!mergedImage || mergedImage.regions.length === 0) return;
+  // Yalnızca aynı türdeki kutulara yazılır; türün varsayılanına eşitse açık değer bırakılmaz ki
+  // kutular tür varsayılanını izlemeye devam etsin
+  const applyCleanModeToType = (source: TextRegion) => {
+    if (!mergedImage) return;
+    const type = regionTypeOf(source);
+    const mode = resolveCleanMode(source, sfxHandling);
+    const cleanMode = mode === regionTypeInfo(type).cleanMode ? undefined : mode;
+    commitRegions(
+      `Temizleme modu tüm "${regionTypeInfo(type).name}" kutularına uygulandı`,
+      mergedImage.regions.map(r => regionTypeOf(r) === type ? { ...r, cleanMode } : r)
+    );
+  };
+
+  const saveEditedTranslation = (region: TextRegion) => {
+    if (!editedTranslations.current.delete(region.id)) return;
+    saveMemoryEntries(sourceLang, targetLang, [{ source: region.originalText, target: translatedTextOf(region, targetLang) }], 'human')
+      .then(() => setMemoryRevision(r => r + 1))
+      .catch(err => console.error("Çeviri belleğe yazılamadı:", err));
+  };
+
+  const previewScriptImport = (rows: ScriptRow[], fileName: string) => {
+    if (!mergedImage) return;
+    setScriptImport({ fileName, ...diffScript(mergedImage.regions, rows, targetLang) });
+  };
+
+  // Redaktörün düzelttiği çeviriler elle yapılmış sayılır ve belleğe de yazılır
+  const applyScriptImport = () => {
+    if (!mergedImage || !scriptImport) return;
+    const { changes } = scriptImport;
+    const regionCount = new Set(changes.map(c => c.regionId)).size;
+    const regions = applyScriptChanges(mergedImage.regions, changes, targetLang);
+    commitRegions(`Senaryo içe aktarıldı: ${regionCount} kutu`, regions);
+
+    const updated = new Set(changes.filter(c => c.field === 'translatedText').map(c => c.regionId));
+    const segments = regions
+      .filter(r => updated.has(r.id))
+      .map(r => ({ source: r.originalText, target: translatedTextOf(r, targetLang) }));
+    saveMemoryEntries(sourceLang, targetLang, segments, 'human')
+      .then(() => setMemoryRevision(r => r + 1))
+      .catch(err => console.error("Çeviri belleğe yazılamadı:", err));
+    setScriptImport(null);
+  };
+
+  const showOcrDebug = async (region: TextRegion) => {
+    if (!mergedImage) return;
+    try {
+      const { canvas, scale, inverted, vertical, rotation } = await preprocessRegion(mergedImage, region, sourceLang, ocrConfig);
+      setOcrDebug({ regionId: region.id, url: canvas.toDataURL('image/png'), scale, inverted, vertical, rotation });
+    } catch (err) {
+      console.error("Ön işleme hatası:", err);
+    }
+  };
+
+  // 'all': tüm kutular, 'resume': henüz çevrilmemiş olanlar, 'failed': yalnızca başarısız olanlar.
+  // Projenin tüm hedef dilleri aynı çalıştırmada sırayla çevrilir.
+  const runAiTranslation = async (scope: 'all' | 'resume' | 'failed' = 'all') => {
+    if (!mergedImage) return;
+    const jobs = targetLangs
+      .map(lang => ({
+        lang,
+        targets: mergedImage.regions.filter(r => {
+          const status = getTranslation(r, lang).translationStatus;
+          return r.originalText.trim() && (scope === 'all' || (scope === 'failed' ? status === 'failed' : status !== 'translated'));
+        })
+      }))
+      .filter(job => job.targets.length > 0);
+    if (jobs.length === 0) return;
     setIsProcessing(true);
-    setProcessingStatus('Gemini API Çevirisi yapılıyor...');
+    setProcessingStatus(`${getTranslationProvider(providerConfig.providerId).name} ile çeviri yapılıyor...`);
+
+    const before = mergedImage.regions;
+    let working = before;
+    // Her partinin sonucu hemen uygulanır; çalıştırma yarıda kalsa bile çevrilenler otomatik kayda girer
+    const applyUpdates = (lang: string, updates: Record<string, Partial<RegionTranslation>>) => {
+      const patch = (regions: TextRegion[]) => regions.map(r => updates[r.id] ? withTranslation(r, lang, updates[r.id]) : r);
+      working = patch(working);
+      setMergedImage(prev => prev && { ...prev, regions: patch(prev.regions) });
+    };
+
+    jobs.forEach(({ lang, targets }) => {
+      const pending: Record<string, Partial<RegionTranslation>> = {};
+      targets.forEach(r => { pending[r.id] = { translationStatus: 'pending', translationError: undefined }; });
+      applyUpdates(lang, pending);
+    });
+
+    const provider = getTranslationProvider(providerConfig.providerId);
+    const run = { ...runOptions, includeImages: runOptions.includeImages && provider.supportsImages };
+    let translatedCount = 0;
+    let fromMemory = 0;
+    const failures: { lang: string, count: number, error: string }[] = [];
 
     try {
-      const translations = await translateOcrResults(
-        mergedImage.regions.map(r => ({ id: r.id, originalText: r.originalText })),
-        sourceLang,
-        targetLang
-      );
+      // Panel görselleri dillerden bağımsızdır; bir kez hazırlanır
+      const allTargets = mergedImage.regions.filter(r => jobs.some(job => job.targets.includes(r)));
+      const allItems = await buildTranslationItems(mergedImage, allTargets, run, setProcessingStatus);
 
-      const updatedRegions = mergedImage.regions.map(r => {
-        const trans = translations.find((t: any) => t.id === r.id);
-        return trans ? { ...r, translatedText: trans.translatedText } : r;
-      });
+      for (const { lang, targets } of jobs) {
+        const status = (text: string) => setProcessingStatus(jobs.length > 1 ? `${lang}: ${text}` : text);
+
+        // Bellekte karşılığı olan satırlar modele gönderilmez
+        let toTranslate = targets;
+        if (memoryOptions.enabled) {
+          status('Çeviri belleği aranıyor...');
+          try {
+            const matches = findMemoryMatches(
+              await loadMemory(sourceLang, lang),
+              targets.map(r => ({ id: r.id, text: r.originalText })),
+              memoryOptions.fuzzyThreshold
+            );
+            const updates: Record<string, Partial<RegionTranslation>> = {};
+            matches.forEach((match, id) => {
+              updates[id] = { translatedText: match.target, translationStatus: 'translated', translationError: undefined, memoryMatch: match.score, reviewStatus: 'machine' };
+            });
+            applyUpdates(lang, updates);
+            toTranslate = targets.filter(r => !matches.has(r.id));
+            fromMemory += matches.size;
+          } catch (err) {
+            console.error("Çeviri belleği okunamadı:", err);
+          }
+        }
+        if (toTranslate.length === 0) continue;
 
-      setMergedImage({ ...mergedImage, regions: updatedRegions });
+        const ids = new Set(toTranslate.map(r => r.id));
+        status(`${provider.name} ile çeviri yapılıyor...`);
+        const result = await translateOcrResults(
+          {
+            items: allItems.filter(item => ids.has(item.id)),
+            sourceLang,
+            targetLang: lang,
+            glossary,
+            context: buildRequestContext(translationContext, run),
+            sfxHandling
+          },
+          { ...providerConfig, apiKey },
+          {
+            ...(run.includeImages && { maxItemsPerBatch: IMAGE_BATCH_SIZE }),
+            onProgress: status,
+            onBatch: (translated, failed) => {
+              const updates: Record<string, Partial<RegionTranslation>> = {};
+              translated.forEach(t => { updates[t.id] = { translatedText: t.translatedText, translationStatus: 'translated', translationError: undefined, memoryMatch: undefined, reviewStatus: 'machine' }; });
+              failed.forEach(f => { updates[f.id] = { translationStatus: 'failed', translationError: f.error }; });
+              applyUpdates(lang, updates);
+            }
+          }
+        );
+
+        translatedCount += result.translated.length;
+        if (result.failed.length > 0) failures.push({ lang, count: result.failed.length, error: result.failed[0].error });
+        if (result.translated.length > 0) {
+          const sources = new Map<string, string>(toTranslate.map(r => [r.id, r.originalText]));
+          saveMemoryEntries(sourceLang, lang, result.translated.map(t => ({ source: sources.get(t.id) || '', target: t.translatedText })), 'machine')
+            .then(() => setMemoryRevision(r => r + 1))
+            .catch(err => console.error("Çeviri belleğe yazılamadı:", err));
+        }
+      }
+
+      if (failures.length > 0) {
+        const summary = failures.map(f => jobs.length > 1 ? `${f.lang}: ${f.count} kutu` : `${f.count} kutu`).join(', ');
+        alert(`Çevrilemeyen kutular var (${summary}).\n\n${failures[0].error}\n\n"Başarısızları tekrar dene" ile yeniden deneyebilirsiniz.`);
+      }
     } catch (error) {
       console.error(error);
       alert("Çeviri sırasında bir hata oluştu.");
     } finally {
+      // Dillerden biri hata verse bile önceki dillerin sonuçları tek adımda geri alınabilir
+      if (translatedCount > 0 || fromMemory > 0) {
+        const langs = jobs.length > 1 ? ` (${jobs.map(job => job.lang).join(', ')})` : '';
+        const label = fromMemory > 0
+          ? `Çeviri${langs}: ${translatedCount} kutu çevrildi, ${fromMemory} bellekten`
+          : `Çeviri${langs}: ${translatedCount} kutu çevrildi`;
+        setHistory(prev => pushHistory(prev, label, before, working));
+      }
       setIsProcessing(false);
       setProcessingStatus('');
     }
   };
 
-  const updateRegion = (id: string, updates: Partial<TextRegion>) => {
+  // Kutulardaki her değişiklik geri alınabilmesi için buradan geçer
+  const commitRegions = (label: string, regions: TextRegion[], coalesceKey?: string) => {
     if (!mergedImage) return;
-    setMergedImage({
-      ...mergedImage,
-      regions: mergedImage.regions.map(r => r.id === id ? { ...r, ...updates } : r)
-    });
+    setHistory(prev => pushHistory(prev, label, mergedImage.regions, regions, coalesceKey));
+    setMergedImage({ ...mergedImage, regions });
+  };
+
+  const applyHistory = (result: { state: HistoryState, regions: TextRegion[] } | null) => {
+    if (!result || !mergedImage) return;
+    setHistory(result.state);
+    setMergedImage({ ...mergedImage, regions: result.regions });
+    setSelectedRegionIds(prev => prev.filter(id => result.regions.some(r => r.id === id)));
+  };
+
+  const undo = () => applyHistory(undoHistory(history));
+  const redo = () => applyHistory(redoHistory(history));
+
+  const updateRegions = (updates: Record<string, Partial<TextRegion>>) => {
+    if (!mergedImage || Object.keys(updates).length === 0) return;
+    const { label, coalesceKey } = describeRegionUpdate(updates);
+    commitRegions(label, mergedImage.regions.map(r => updates[r.id] ? { ...r, ...updates[r.id] } : r), coalesceKey);
   };
 
+  const updateRegion = (id: string, updates: Partial<TextRegion>) => updateRegions({ [id]: updates });
+
   const addRegion = (data: Omit<TextRegion, 'id' | 'order'>) => {
     if (!mergedImage) return;
     const newRegion: TextRegion = {
@@ -176,78 +902,73 @@ const App: React.FC = () => {
       id: Math.random().toString(36).substr(2, 9),
       order: mergedImage.regions.length + 1
     };
-    setMergedImage({
-      ...mergedImage,
-      regions: [...mergedImage.regions, newRegion]
-    });
+    commitRegions('Kutu eklendi', sequenceRegions([...mergedImage.regions, newRegion]));
     setSelectedRegionId(newRegion.id);
   };
 
-  const removeRegion = (id: string) => {
+  const removeRegions = (ids: string[]) => {
     if (!mergedImage) return;
-    const newRegions = mergedImage.regions
-      .filter(r => r.id !== id)
-      .map((r, i) => ({ ...r, order: i + 1 }));
-    setMergedImage({ ...mergedImage, regions: newRegions });
-    setSelectedRegionId(null);
+    const newRegions = sequenceRegions(mergedImage.regions.filter(r => !ids.includes(r.id)));
+    commitRegions(ids.length > 1 ? `${ids.length} kutu silindi` : 'Kutu silindi', newRegions);
+    setSelectedRegionIds(prev => prev.filter(id => !ids.includes(id)));
   };
 
-  const downloadFinal = async () => {
-    if (!mergedImage) return;
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const img = new Image();
-    img.src = mergedImage.url;
-    await new Promise(r => img.onload = r);
-    canvas.width = img.width;
-    canvas.height = img.height;
-    ctx?.drawImage(img, 0, 0);
+  const removeRegion = (id: string) => removeRegions([id]);
 
-    mergedImage.regions.forEach(r => {
-      if (!ctx) return;
-      const rx = (r.x / 100) * canvas.width;
-      const ry = (r.y / 100) * canvas.height;
-      const rw = (r.width / 100) * canvas.width;
-      const rh = (r.height / 100) * canvas.height;
-
-      ctx.fillStyle = 'white';
-      ctx.fillRect(rx, ry, rw, rh);
-
-      ctx.fillStyle = 'black';
-      const fontSize = Math.max(12, rh * 0.15);
-      ctx.font = `bold ${fontSize}px "Inter", sans-serif`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      
-      const text = r.translatedText || r.originalText;
-      if (!text) return;
-
-      const words = text.split(' ');
-      let line = '';
-      let lines = [];
-      for(let n = 0; n < words.length; n++) {
-        let testLine = line + words[n] + ' ';
-        if (ctx.measureText(testLine).width > rw * 0.85 && n > 0) {
-          lines.push(line);
-          line = words[n] + ' ';
-        } else {
-          line = testLine;
-        }
-      }
-      lines.push(line);
+  const updateManyRegions = (ids: string[], updates: Partial<TextRegion>, label: string) => {
+    if (!mergedImage || ids.length === 0) return;
+    commitRegions(label, mergedImage.regions.map(r => ids.includes(r.id) ? { ...r, ...updates } : r));
+  };
 
-      const lineHeight = fontSize * 1.2;
-      const startY = ry + (rh / 2) - ((lines.length - 1) * lineHeight / 2);
+  // İnceleme durumu etkin dil için atanır
+  const setReviewStatus = (ids: string[], status: ReviewStatus | undefined) => {
+    if (!mergedImage || ids.length === 0) return;
+    const name = status ? reviewStatusName(status) : 'inceleme durumu kaldırıldı';
+    const label = ids.length > 1
+      ? `${ids.length} kutu: ${name}`
+      : `Kutu #${mergedImage.regions.find(r => r.id === ids[0])?.order}: ${name}`;
+    commitRegions(label, mergedImage.regions.map(r => ids.includes(r.id) ? withReviewStatus(r, targetLang, status) : r));
+  };
 
-      lines.forEach((l, i) => {
-        ctx.fillText(l, rx + rw / 2, startY + (i * lineHeight));
-      });
-    });
+  const updateComments = (id: string, comments: RegionComment[], label: string) => {
+    if (!mergedImage) return;
+    commitRegions(label, mergedImage.regions.map(r => r.id === id ? { ...r, comments: comments.length > 0 ? comments : undefined } : r));
+  };
+
+  // Listeden seçilen kutu görsel üzerinde ortalanır
+  const focusRegion = (id: string) => {
+    setSelectedRegionId(id);
+    setScrollRequest({ id });
+  };
+
+  // Seçili kutudan sonraki (direction -1 ise önceki) çevrilmemiş kutuya gider; sona gelince başa döner
+  const jumpToUntranslated = (direction: 1 | -1) => {
+    if (!mergedImage) return;
+    const candidates = reviewableRegions(mergedImage.regions)
+      .filter(r => reviewStatusOf(r, targetLang) === 'untranslated')
+      .sort((a, b) => (a.order - b.order) * direction);
+    if (candidates.length === 0) return;
+    const current = mergedImage.regions.find(r => r.id === selectedRegionId)?.order;
+    const next = current === undefined
+      ? candidates[0]
+      : candidates.find(r => (r.order - current) * direction > 0) || candidates[0];
+    focusRegion(next.id);
+  };
 
-    const link = document.createElement('a');
-    link.download = `webtoon_final_${Date.now()}.jpg`;
-    link.href = canvas.toDataURL('image/jpeg', 0.95);
-    link.click();
+  const downloadFinal = async (langs: string[]) => {
+    if (!mergedImage || langs.length === 0) return;
+    setIsProcessing(true);
+    try {
+      // Tüm şerit hiçbir zaman tek canvas'a çizilmez; dilimler tek tek üretilip arşivlenir
+      await exportStrip(mergedImage, stylePresets, sfxHandling, exportOptions, langs, setProcessingStatus);
+      setShowExportDialog(false);
+    } catch (err) {
+      console.error("Dışa aktarma hatası:", err);
+      alert(err instanceof Error ? err.message : "Dışa aktarma sırasında bir hata oluştu.");
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
   };
 
   return (
@@ -265,13 +986,26 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <input type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} onChange={openProject} className="hidden" id="project-open" />
+              <label htmlFor="project-open" className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest cursor-pointer transition-colors flex items-center gap-2">
+                <i className="fa-solid fa-folder-open"></i> Proje Aç
+              </label>
+              <button
+                onClick={saveProject}
+                disabled={images.length === 0 && !mergedImage}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors flex items-center gap-2 disabled:opacity-30"
+              >
+                <i className="fa-solid fa-floppy-disk"></i> Projeyi Kaydet
+              </button>
+            </div>
             <div className="hidden lg:flex items-center bg-slate-800 rounded-xl p-1.5 border border-slate-700 shadow-inner">
                <div className="px-3 py-1 text-[10px] font-black text-slate-500 uppercase">Diller:</div>
                <select value={sourceLang} onChange={e => setSourceLang(e.target.value)} className="bg-slate-900 text-xs font-bold px-3 py-1 rounded-lg outline-none border border-slate-700">
                 {SUPPORTED_LANGUAGES.map(l => <option key={l.code} value={l.name}>{l.name}</option>)}
               </select>
               <i className="fa-solid fa-chevron-right text-[10px] text-slate-600 mx-2"></i>
-              <select value={targetLang} onChange={e => setTargetLang(e.target.value)} className="bg-slate-900 text-xs font-bold px-3 py-1 rounded-lg outline-none border border-slate-700">
+              <select value={targetLang} onChange={e => selectTargetLang(e.target.value)} className="bg-slate-900 text-xs font-bold px-3 py-1 rounded-lg outline-none border border-slate-700">
                 {SUPPORTED_LANGUAGES.map(l => <option key={l.code} value={l.name}>{l.name}</option>)}
               </select>
             </div>
@@ -280,20 +1014,86 @@ const App: React.FC = () => {
       </header>
 
       <main className="flex-1 p-8 max-w-[1600px] mx-auto w-full">
+        {showExportDialog && mergedImage && (
+          <ExportDialog
+            options={exportOptions}
+            pageCount={mergedImage.tiles.length}
+            languages={targetLangs}
+            missingTranslations={missingTranslations}
+            unapproved={unapprovedCounts}
+            isProcessing={isProcessing}
+            processingStatus={processingStatus}
+            onChange={setExportOptions}
+            onExport={downloadFinal}
+            onClose={() => setShowExportDialog(false)}
+          />
+        )}
+
+        {scriptImport && (
+          <ScriptImportDialog
+            fileName={scriptImport.fileName}
+            changes={scriptImport.changes}
+            unmatched={scriptImport.unmatched}
+            onApply={applyScriptImport}
+            onClose={() => setScriptImport(null)}
+          />
+        )}
+
+        {pendingRestore && (
+          <div className="mb-8 bg-blue-600/10 border border-blue-500/30 p-5 rounded-3xl flex flex-col md:flex-row md:items-center justify-between gap-4 animate-in fade-in duration-300">
+            <div className="flex items-center gap-4">
+              <i className="fa-solid fa-clock-rotate-left text-blue-400 text-xl"></i>
+              <div>
+                <p className="text-sm font-black">Son oturum bulundu</p>
+                <p className="text-xs text-slate-400">
+                  {new Date(pendingRestore.savedAt).toLocaleString()} · {pendingRestore.pages.length} sayfa · {pendingRestore.merged?.regions.length ?? 0} kutucuk
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => resolvePendingRestore(false)} className="px-5 py-2.5 bg-slate-800 hover:bg-slate-700 rounded-xl text-xs font-black transition-colors">YOKSAY</button>
+              <button onClick={() => resolvePendingRestore(true)} className="px-5 py-2.5 bg-blue-600 hover:bg-blue-500 rounded-xl text-xs font-black transition-colors">GERİ YÜKLE</button>
+            </div>
+          </div>
+        )}
+
         {mode === AppMode.UPLOAD ? (
           <div className="flex flex-col gap-10">
-            <div className="relative group">
+            <div
+              className="relative group"
+              onDragOver={e => {
+                // Sayfa ızgarasındaki sıralama sürüklemesi dosya bırakma sayılmaz
+                if (draggingPage) return;
+                e.preventDefault();
+                setDropActive(true);
+              }}
+              onDragLeave={e => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropActive(false);
+              }}
+              onDrop={handleDrop}
+            >
                <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-cyan-600 rounded-[2.5rem] blur opacity-25 group-hover:opacity-40 transition duration-1000 group-hover:duration-200"></div>
-               <div className="relative border-4 border-dashed border-slate-800 rounded-[2rem] bg-slate-900/50 p-16 text-center hover:bg-slate-900/80 transition-all cursor-pointer">
-                <input type="file" multiple accept="image/*" onChange={handleFileUpload} className="hidden" id="file-upload" />
+               <div className={`relative border-4 border-dashed rounded-[2rem] p-16 text-center transition-all cursor-pointer ${
+                 dropActive ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800 bg-slate-900/50 hover:bg-slate-900/80'
+               }`}>
+                <input type="file" multiple accept="image/*,.zip,.cbz" onChange={handleFileUpload} className="hidden" id="file-upload" />
+                {/* webkitdirectory React tiplerinde yok; klasördeki tüm dosyalar göreli yollarıyla gelir */}
+                <input type="file" multiple onChange={handleFileUpload} className="hidden" id="folder-upload" {...{ webkitdirectory: '' }} />
                 <label htmlFor="file-upload" className="cursor-pointer block">
                   <div className="w-24 h-24 bg-slate-800 rounded-3xl flex items-center justify-center mx-auto mb-8 shadow-2xl group-hover:scale-110 transition-transform duration-500">
-                    <i className="fa-solid fa-cloud-arrow-up text-4xl text-blue-500"></i>
+                    <i className={`fa-solid ${isProcessing ? 'fa-circle-notch fa-spin' : 'fa-cloud-arrow-up'} text-4xl text-blue-500`}></i>
                   </div>
                   <h2 className="text-3xl font-black mb-3">Webtoon Bölümü Hazırla</h2>
-                  <p className="text-slate-400 text-lg mb-8 max-w-md mx-auto leading-relaxed">Çevirmek istediğiniz sayfaları yükleyin. Sıralamayı sürükleyerek ayarlayabilirsiniz.</p>
+                  <p className="text-slate-400 text-lg mb-8 max-w-md mx-auto leading-relaxed">
+                    {isProcessing
+                      ? processingStatus
+                      : 'Sayfaları, klasörleri veya ZIP/CBZ arşivlerini buraya bırakın. Sayfalar dosya adına göre (2, 10\'dan önce) sıralanır.'}
+                  </p>
                   <span className="px-10 py-4 bg-blue-600 hover:bg-blue-500 rounded-2xl font-black text-sm shadow-2xl shadow-blue-600/40 inline-block transition-all active:scale-95">Dosyaları Tara</span>
                 </label>
+                <label htmlFor="folder-upload" className="mt-4 inline-block text-xs font-black text-slate-400 hover:text-white cursor-pointer">
+                  <i className="fa-solid fa-folder-open mr-2"></i>KLASÖR SEÇ
+                </label>
               </div>
             </div>
 
@@ -303,6 +1103,16 @@ const App: React.FC = () => {
                   <h3 className="font-black text-slate-500 uppercase tracking-widest text-sm flex items-center gap-2">
                     <i className="fa-solid fa-list-ol"></i> SAYA SIRALAMASI ({images.length})
                   </h3>
+                  <div className="flex items-center gap-3 ml-auto mr-3">
+                    <button onClick={sortPagesByName} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-xl text-[10px] font-black transition-colors">
+                      <i className="fa-solid fa-arrow-down-1-9 mr-1"></i> ADA GÖRE SIRALA
+                    </button>
+                    {Object.keys(duplicatePages).length > 0 && (
+                      <button onClick={removeDuplicatePages} className="px-4 py-2 bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/30 rounded-xl text-[10px] font-black text-amber-200 transition-colors">
+                        <i className="fa-solid fa-clone mr-1"></i> {Object.keys(duplicatePages).length} KOPYAYI KALDIR
+                      </button>
+                    )}
+                  </div>
                   <button 
                     onClick={mergeImagesOnly} 
                     disabled={isProcessing}
@@ -314,8 +1124,33 @@ const App: React.FC = () => {
                 </div>
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-6">
                   {images.map((img, idx) => (
-                    <div key={img.id} className="relative group rounded-2xl overflow-hidden border-2 border-slate-800 hover:border-blue-500 transition-all shadow-2xl bg-slate-900">
-                      <img src={img.previewUrl} className="w-full aspect-[3/4] object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+                    <div
+                      key={img.id}
+                      draggable
+                      onDragStart={e => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggingPage({ id: img.id, overId: null });
+                      }}
+                      onDragOver={e => {
+                        if (!draggingPage) return;
+                        e.preventDefault();
+                        if (draggingPage.overId !== img.id) setDraggingPage({ ...draggingPage, overId: img.id });
+                      }}
+                      onDrop={e => {
+                        if (!draggingPage) return;
+                        e.preventDefault();
+                        e.stopPropagation();
+                        reorderPage(draggingPage.id, img.id);
+                        setDraggingPage(null);
+                      }}
+                      onDragEnd={() => setDraggingPage(null)}
+                      className={`relative group rounded-2xl overflow-hidden border-2 transition-all shadow-2xl bg-slate-900 cursor-grab ${
+                        draggingPage?.overId === img.id && draggingPage.id !== img.id
+                          ? 'border-pink-400'
+                          : duplicatePages[img.id] ? 'border-amber-500/70 hover:border-amber-400' : 'border-slate-800 hover:border-blue-500'
+                      } ${draggingPage?.id === img.id ? 'opacity-40' : ''}`}
+                    >
+                      <img src={img.previewUrl} draggable={false} className="w-full aspect-[3/4] object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
                       <div className="absolute inset-0 bg-gradient-to-t from-black via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-end p-4 gap-3">
                          <div className="flex gap-2 w-full">
                            <button onClick={() => moveImage(idx, 'up')} className="flex-1 h-10 bg-slate-800/90 rounded-xl flex items-center justify-center hover:bg-blue-600 transition-colors"><i className="fa-solid fa-chevron-left"></i></button>
@@ -324,6 +1159,12 @@ const App: React.FC = () => {
                          <button onClick={() => setImages(prev => prev.filter(i => i.id !== img.id))} className="w-full h-10 bg-red-600/90 rounded-xl text-xs font-black hover:bg-red-500 transition-colors">SİL</button>
                       </div>
                       <div className="absolute top-3 left-3 bg-blue-600 text-[10px] font-black px-2.5 py-1 rounded-lg shadow-lg">SAYFA {idx + 1}</div>
+                      {duplicatePages[img.id] && (
+                        <div className="absolute top-3 right-3 bg-amber-500 text-black text-[10px] font-black px-2.5 py-1 rounded-lg shadow-lg">
+                          KOPYA · SAYFA {images.findIndex(i => i.id === duplicatePages[img.id]) + 1}
+                        </div>
+                      )}
+                      <div className="absolute bottom-0 inset-x-0 px-3 py-1.5 bg-black/60 text-[10px] text-slate-300 truncate group-hover:hidden" title={img.file.name}>{img.file.name}</div>
                     </div>
                   ))}
                 </div>
@@ -332,19 +1173,39 @@ const App: React.FC = () => {
           </div>
         ) : (
           <div className="flex flex-col lg:flex-row gap-10 h-full animate-in fade-in zoom-in-95 duration-500">
-            <div className="flex-1 bg-slate-900/30 rounded-[2.5rem] p-6 border border-slate-800 overflow-auto max-h-[calc(100vh-200px)] shadow-2xl custom-scrollbar">
-               <div className="max-w-3xl mx-auto">
-                <ImageCanvas 
-                  imageUrl={mergedImage!.url}
-                  regions={mergedImage!.regions}
-                  onAddRegion={addRegion}
-                  onUpdateRegion={updateRegion}
-                  onRemoveRegion={removeRegion}
-                  selectedRegionId={selectedRegionId}
-                  onSelectRegion={setSelectedRegionId}
-                />
-               </div>
-            </div>
+            <ZoomViewport
+              tiles={mergedImage!.tiles}
+              stripWidth={mergedImage!.width}
+              stripHeight={mergedImage!.height}
+              regions={mergedImage!.regions}
+              lang={targetLang}
+              selectedRegionIds={selectedRegionIds}
+              untranslatedCount={reviewCounts.untranslated}
+              onJumpToUntranslated={jumpToUntranslated}
+            >
+              <ImageCanvas 
+                tiles={mergedImage!.tiles}
+                stripWidth={mergedImage!.width}
+                stripHeight={mergedImage!.height}
+                regions={mergedImage!.regions}
+                targetLang={targetLang}
+                onAddRegion={addRegion}
+                onUpdateRegions={updateRegions}
+                onRemoveRegions={removeRegions}
+                selectedRegionIds={selectedRegionIds}
+                onSelectRegions={setSelectedRegionIds}
+                proposals={proposals}
+                onToggleProposal={toggleProposal}
+                previews={cleanPreviews}
+                textPlacements={textPlacements}
+                warnings={regionWarnings}
+                scrollRequest={scrollRequest}
+                showOrder={showOrder}
+                translatedTiles={previewMode === 'original' ? undefined : translatedTiles}
+                split={previewMode === 'split' ? previewSplit : 100}
+                hideChrome={hideChrome}
+              />
+            </ZoomViewport>
 
             <aside className="w-full lg:w-[450px] flex flex-col gap-8 shrink-0">
               <div className="bg-slate-900 border border-slate-800 rounded-[2.5rem] p-8 shadow-2xl flex flex-col gap-8 sticky top-24">
@@ -354,9 +1215,74 @@ const App: React.FC = () => {
                     <span className="px-3 py-1 bg-slate-800 rounded-full text-[10px] font-bold text-slate-500">{mergedImage?.regions.length} Kutucuk</span>
                   </div>
 
+                  <LanguageSwitcher
+                    languages={targetLangs}
+                    activeLang={targetLang}
+                    regions={mergedImage!.regions}
+                    onSelect={selectTargetLang}
+                    onChange={changeTargetLangs}
+                  />
+
+                  <div className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 space-y-4">
+                    <div className="grid grid-cols-3 gap-3 items-end">
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Yöntem</label>
+                        <select
+                          value={detectionOptions.method}
+                          onChange={e => setDetectionOptions({ ...detectionOptions, method: e.target.value as DetectionMethod })}
+                          className="w-full bg-slate-950 border border-slate-800 rounded-xl px-2 py-2 text-xs outline-none"
+                        >
+                          <option value="both">Metin + Balon</option>
+                          <option value="text">Sadece Metin</option>
+                          <option value="bubble">Sadece Balon</option>
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Birleştirme</label>
+                        <input
+                          type="range" min={0.3} max={3} step={0.1}
+                          value={detectionOptions.mergeGap}
+                          onChange={e => setDetectionOptions({ ...detectionOptions, mergeGap: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Pay (px)</label>
+                        <input
+                          type="number" min={0} max={60}
+                          value={detectionOptions.padding}
+                          onChange={e => setDetectionOptions({ ...detectionOptions, padding: Number(e.target.value) })}
+                          className="w-full bg-slate-950 border border-slate-800 rounded-xl px-2 py-2 text-xs outline-none"
+                        />
+                      </div>
+                    </div>
+
+                    {proposals.length === 0 ? (
+                      <button
+                        onClick={runAutoDetect}
+                        disabled={isProcessing}
+                        className="w-full py-3 bg-emerald-600/20 hover:bg-emerald-600/30 border border-emerald-500/30 disabled:opacity-30 rounded-2xl text-[10px] font-black tracking-widest uppercase transition-colors"
+                      >
+                        <i className="fa-solid fa-wand-magic-sparkles mr-2 text-emerald-400"></i>Otomatik Algıla
+                      </button>
+                    ) : (
+                      <div className="space-y-3">
+                        <p className="text-[11px] text-slate-400">
+                          {proposals.filter(p => p.accepted).length}/{proposals.length} öneri seçili. Görsel üzerinde tıklayarak öneri seçimini değiştirebilirsiniz.
+                        </p>
+                        <div className="grid grid-cols-2 gap-2">
+                          <button onClick={() => setProposals(prev => prev.map(p => ({ ...p, accepted: true })))} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-xl text-[10px] font-black">TÜMÜNÜ SEÇ</button>
+                          <button onClick={() => setProposals(prev => prev.map(p => ({ ...p, accepted: false })))} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-xl text-[10px] font-black">HİÇBİRİ</button>
+                          <button onClick={() => setProposals([])} className="py-2 bg-red-600/20 hover:bg-red-600/30 rounded-xl text-[10px] font-black text-red-300">İPTAL</button>
+                          <button onClick={acceptProposals} disabled={!proposals.some(p => p.accepted)} className="py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 rounded-xl text-[10px] font-black">KABUL ET</button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   <div className="grid grid-cols-2 gap-4">
                     <button 
-                      onClick={runOcrOnSelectedRegions} 
+                      onClick={() => runOcr()}
                       disabled={isProcessing || mergedImage?.regions.length === 0}
                       className="group relative flex flex-col items-center gap-3 p-5 bg-slate-800/50 hover:bg-slate-800 disabled:opacity-30 rounded-3xl border border-slate-700 transition-all hover:border-blue-500/50 shadow-xl"
                     >
@@ -367,7 +1293,7 @@ const App: React.FC = () => {
                     </button>
 
                     <button 
-                      onClick={runAiTranslation} 
+                      onClick={() => runAiTranslation('all')} 
                       disabled={isProcessing || mergedImage?.regions.length === 0}
                       className="group relative flex flex-col items-center gap-3 p-5 bg-slate-800/50 hover:bg-slate-800 disabled:opacity-30 rounded-3xl border border-slate-700 transition-all hover:border-purple-500/50 shadow-xl"
                     >
@@ -378,10 +1304,237 @@ const App: React.FC = () => {
                     </button>
                   </div>
 
+                  {(translationCounts.pending > 0 || translationCounts.failed > 0) && !isProcessing && (
+                    <div className="bg-slate-950/50 border border-slate-800 rounded-3xl p-4 space-y-3">
+                      <p className="text-[10px] font-black text-slate-400 tracking-widest uppercase">
+                        Çeviri: <span className="text-emerald-400">{translationCounts.translated} tamam</span>
+                        {translationCounts.pending > 0 && <> · <span className="text-slate-300">{translationCounts.pending} bekliyor</span></>}
+                        {translationCounts.failed > 0 && <> · <span className="text-red-400">{translationCounts.failed} başarısız</span></>}
+                      </p>
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => runAiTranslation('resume')}
+                          className="py-2 bg-slate-800 hover:bg-slate-700 rounded-xl text-[10px] font-black"
+                        >
+                          <i className="fa-solid fa-play mr-1"></i> KALANLARI ÇEVİR
+                        </button>
+                        <button
+                          onClick={() => runAiTranslation('failed')}
+                          disabled={translationCounts.failed === 0}
+                          className="py-2 bg-red-600/20 hover:bg-red-600/30 disabled:opacity-30 rounded-xl text-[10px] font-black text-red-200"
+                        >
+                          <i className="fa-solid fa-rotate-right mr-1"></i> BAŞARISIZLARI TEKRAR DENE
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <details open className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/regions">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span>
+                        <i className="fa-solid fa-list-check mr-2 text-emerald-400"></i>Kutu Listesi ({reviewCounts.approved}/{reviewableRegions(mergedImage!.regions).length} onaylı)
+                      </span>
+                      <i className="fa-solid fa-chevron-down group-open/regions:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <RegionListPanel
+                        regions={mergedImage!.regions}
+                        lang={targetLang}
+                        selectedRegionIds={selectedRegionIds}
+                        warnings={regionWarnings}
+                        onSelect={focusRegion}
+                        onSetStatus={setReviewStatus}
+                        onReorder={reorderRegion}
+                        onSelectMany={setSelectedRegionIds}
+                        onUpdateMany={updateManyRegions}
+                      />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/order">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span>
+                        <i className="fa-solid fa-arrow-down-1-9 mr-2 text-pink-400"></i>Okuma Sırası: {READING_DIRECTIONS.find(d => d.id === readingOrder.direction)!.name}{readingOrder.auto ? ' (otomatik)' : ''}
+                      </span>
+                      <i className="fa-solid fa-chevron-down group-open/order:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <ReadingOrderPanel
+                        options={readingOrder}
+                        showOrder={showOrder}
+                        disabled={isProcessing || mergedImage!.regions.length === 0}
+                        onChange={setReadingOrder}
+                        onShowOrderChange={setShowOrder}
+                        onApply={applyReadingOrder}
+                      />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/ocr">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-eye mr-2 text-blue-400"></i>OCR Motoru: {getOcrEngine(ocrConfig.engineId).name}</span>
+                      <i className="fa-solid fa-chevron-down group-open/ocr:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <OcrEngineSettings config={ocrConfig} onChange={setOcrConfig} />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/provider">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-robot mr-2 text-purple-400"></i>Çeviri Motoru: {getTranslationProvider(providerConfig.providerId).name}</span>
+                      <i className="fa-solid fa-chevron-down group-open/provider:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <ProviderSettings
+                        config={providerConfig}
+                        apiKey={apiKey}
+                        onChange={changeProviderConfig}
+                        onApiKeyChange={changeApiKey}
+                      />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/context">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-people-group mr-2 text-amber-400"></i>Çeviri Bağlamı</span>
+                      <i className="fa-solid fa-chevron-down group-open/context:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <TranslationContextPanel
+                        context={translationContext}
+                        runOptions={runOptions}
+                        sfxHandling={sfxHandling}
+                        supportsImages={getTranslationProvider(providerConfig.providerId).supportsImages}
+                        onChange={setTranslationContext}
+                        onRunOptionsChange={setRunOptions}
+                        onSfxHandlingChange={setSfxHandling}
+                        onCaptureChapterEnding={() => mergedImage && setTranslationContext({
+                          ...translationContext,
+                          previousChapter: summarizeChapterEnding(mergedImage.regions, targetLang)
+                        })}
+                      />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/memory">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-database mr-2 text-emerald-400"></i>Çeviri Belleği</span>
+                      <i className="fa-solid fa-chevron-down group-open/memory:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <TranslationMemoryPanel
+                        options={memoryOptions}
+                        sourceLang={sourceLang}
+                        targetLang={targetLang}
+                        revision={memoryRevision}
+                        onChange={setMemoryOptions}
+                      />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/script">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-file-lines mr-2 text-blue-300"></i>Senaryo (Redaksiyon)</span>
+                      <i className="fa-solid fa-chevron-down group-open/script:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <ScriptPanel
+                        regions={mergedImage!.regions}
+                        sourceLang={sourceLang}
+                        targetLang={targetLang}
+                        onImport={previewScriptImport}
+                      />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/glossary">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-book mr-2 text-cyan-400"></i>Seri Sözlüğü ({glossary.length})</span>
+                      <i className="fa-solid fa-chevron-down group-open/glossary:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <GlossaryPanel glossary={glossary} onChange={setGlossary} />
+                    </div>
+                  </details>
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/history">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-clock-rotate-left mr-2 text-slate-300"></i>Düzenleme Geçmişi ({history.past.length})</span>
+                      <i className="fa-solid fa-chevron-down group-open/history:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <HistoryPanel
+                        history={history}
+                        onUndo={undo}
+                        onRedo={redo}
+                        onJump={entryId => applyHistory(jumpToHistory(history, entryId))}
+                      />
+                    </div>
+                  </details>
+
+                  {Object.keys(glossaryViolations).length > 0 && (
+                    <div className="bg-amber-500/10 border border-amber-500/30 p-4 rounded-2xl space-y-2">
+                      <p className="text-[10px] font-black text-amber-400 tracking-widest uppercase">
+                        <i className="fa-solid fa-triangle-exclamation mr-2"></i>Sözlük Uyarıları
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {mergedImage!.regions.filter(r => glossaryViolations[r.id]).map(r => (
+                          <button
+                            key={r.id}
+                            onClick={() => focusRegion(r.id)}
+                            className="px-2 py-1 bg-amber-500/20 hover:bg-amber-500/30 rounded-lg text-[10px] font-black text-amber-200"
+                          >
+                            #{r.order}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <details className="bg-slate-950/50 border border-slate-800 rounded-3xl p-5 group/preview">
+                    <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                      <span><i className="fa-solid fa-display mr-2 text-cyan-400"></i>Görünüm: {previewMode === 'original' ? 'Orijinal' : previewMode === 'translated' ? `Çeviri (${targetLang})` : 'Karşılaştırma'}</span>
+                      <i className="fa-solid fa-chevron-down group-open/preview:rotate-180 transition-transform"></i>
+                    </summary>
+                    <div className="pt-4">
+                      <PreviewControls
+                        mode={previewMode}
+                        split={previewSplit}
+                        hideChrome={hideChrome}
+                        lang={targetLang}
+                        rendering={previewRendering}
+                        onModeChange={setPreviewMode}
+                        onSplitChange={setPreviewSplit}
+                        onHideChromeChange={setHideChrome}
+                      />
+                    </div>
+                  </details>
+
+                  <label className="flex items-center gap-3 text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer">
+                    <input type="checkbox" checked={showCleanPreview} onChange={e => setShowCleanPreview(e.target.checked)} />
+                    Temizlenmiş Görünümü Önizle
+                  </label>
+                  <label className="flex items-center gap-3 text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer">
+                    <input type="checkbox" checked={showTextPreview} onChange={e => setShowTextPreview(e.target.checked)} />
+                    Dizgiyi Önizle
+                  </label>
+
                   {isProcessing && (
                     <div className="bg-blue-600/10 border border-blue-500/20 p-4 rounded-2xl flex items-center gap-4 animate-pulse">
                       <i className="fa-solid fa-circle-notch fa-spin text-blue-400"></i>
                       <span className="text-xs font-bold text-blue-200">{processingStatus}</span>
+                      {ocrAbort.current && (
+                        <button
+                          onClick={() => {
+                            ocrAbort.current?.abort();
+                            setProcessingStatus('İptal ediliyor, süren okumalar tamamlanıyor...');
+                          }}
+                          className="ml-auto text-[10px] font-black text-red-300 hover:text-red-200"
+                        >
+                          İPTAL
+                        </button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -391,6 +1544,8 @@ const App: React.FC = () => {
                     <div className="space-y-6 animate-in slide-in-from-right-4 duration-300">
                       {(() => {
                         const region = mergedImage!.regions.find(r => r.id === selectedRegionId)!;
+                        const translation = getTranslation(region, targetLang);
+                        const reviewStatus = reviewStatusOf(region, targetLang);
                         return (
                           <>
                             <div className="flex justify-between items-center">
@@ -400,21 +1555,196 @@ const App: React.FC = () => {
                               </button>
                             </div>
                             <div className="space-y-2">
-                              <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Kaynak Metin (Korece)</label>
+                              <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Tür</label>
+                              <div className="grid grid-cols-5 gap-1">
+                                {REGION_TYPES.map(t => (
+                                  <button
+                                    key={t.id}
+                                    title={t.name}
+                                    onClick={() => regionTypeOf(region) !== t.id && updateRegion(region.id, regionTypeUpdate(t.id))}
+                                    className={`py-2 rounded-xl text-[10px] font-black flex flex-col items-center gap-1 ${regionTypeOf(region) === t.id ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700 text-slate-400'}`}
+                                  >
+                                    <i className={`fa-solid ${t.icon}`}></i>
+                                    <span className="truncate max-w-full px-1">{t.name}</span>
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                            <div className="space-y-2">
+                              <div className="flex justify-between items-center">
+                                <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Kaynak Metin ({sourceLang})</label>
+                                {region.ocrEngine && (
+                                  <span
+                                    title={`${getOcrEngine(region.ocrEngine).name} ile okundu`}
+                                    className={`text-[10px] font-black px-2 py-0.5 rounded-lg ${isLowConfidence(region) ? 'bg-amber-500/20 text-amber-300' : 'bg-slate-800 text-slate-400'}`}
+                                  >
+                                    {region.ocrConfidence !== undefined ? `%${Math.round(region.ocrConfidence * 100)} güven` : 'elle düzeltildi'}
+                                  </span>
+                                )}
+                              </div>
                               <textarea 
                                 value={region.originalText} 
-                                onChange={e => updateRegion(region.id, { originalText: e.target.value })}
+                                onChange={e => updateRegion(region.id, { originalText: e.target.value, ocrConfidence: undefined })}
                                 className="w-full bg-slate-950 border border-slate-800 rounded-2xl px-4 py-3 text-xs focus:border-blue-500 outline-none resize-none min-h-[80px] shadow-inner"
                               />
+                              <div className="flex flex-wrap gap-2">
+                                {OCR_ENGINES.map(engine => (
+                                  <button
+                                    key={engine.id}
+                                    onClick={() => runOcr([region.id], engine.id)}
+                                    disabled={isProcessing}
+                                    className="px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded-lg text-[10px] font-black text-slate-300"
+                                  >
+                                    <i className="fa-solid fa-rotate mr-1"></i>{engine.name} ile oku
+                                  </button>
+                                ))}
+                                <button
+                                  onClick={() => showOcrDebug(region)}
+                                  className="px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black text-slate-300"
+                                >
+                                  <i className="fa-solid fa-bug mr-1"></i>İşlenmiş görüntü
+                                </button>
+                              </div>
+                              {ocrDebug?.regionId === region.id && (
+                                <OcrDebugView preview={ocrDebug} onClose={() => setOcrDebug(null)} />
+                              )}
                             </div>
                             <div className="space-y-2">
-                              <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">AI Çeviri (Türkçe)</label>
+                              <div className="flex justify-between items-center">
+                                <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">AI Çeviri ({targetLang})</label>
+                                {translation.memoryMatch !== undefined && (
+                                  <span className={`text-[10px] font-black px-2 py-0.5 rounded-lg ${translation.memoryMatch < 1 ? 'bg-amber-500/20 text-amber-300' : 'bg-emerald-500/20 text-emerald-300'}`}>
+                                    <i className="fa-solid fa-database mr-1"></i>
+                                    {translation.memoryMatch < 1 ? `Bellek %${Math.round(translation.memoryMatch * 100)}` : 'Bellekten'}
+                                  </span>
+                                )}
+                              </div>
+                              {targetLangs.length > 1 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {targetLangs.map(lang => (
+                                    <button
+                                      key={lang}
+                                      onClick={() => selectTargetLang(lang)}
+                                      title={translatedTextOf(region, lang) || 'Çeviri yok'}
+                                      className={`px-2 py-0.5 rounded-lg text-[10px] font-black ${lang === targetLang ? 'bg-purple-600 text-white' : translatedTextOf(region, lang).trim() ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-900 text-slate-600 hover:bg-slate-800'}`}
+                                    >
+                                      {lang}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
                               <textarea 
-                                value={region.translatedText} 
-                                onChange={e => updateRegion(region.id, { translatedText: e.target.value })}
+                                value={translation.translatedText} 
+                                onChange={e => {
+                                  editedTranslations.current.add(region.id);
+                                  updateRegion(region.id, translationUpdate(region, targetLang, { translatedText: e.target.value, translationStatus: 'translated', translationError: undefined, memoryMatch: undefined, reviewStatus: 'edited' }));
+                                }}
+                                onBlur={() => saveEditedTranslation(region)}
                                 className="w-full bg-slate-950 border border-slate-800 rounded-2xl px-4 py-3 text-xs focus:border-purple-500 outline-none resize-none min-h-[100px] font-bold text-blue-400 shadow-inner"
                               />
                             </div>
+                            <div className="flex items-center gap-2">
+                              <ReviewStatusBadge status={reviewStatus} />
+                              <div className="ml-auto flex gap-2">
+                                {reviewStatus === 'approved' ? (
+                                  <button onClick={() => setReviewStatus([region.id], undefined)} className="px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black text-slate-300">
+                                    <i className="fa-solid fa-rotate-left mr-1"></i>ONAYI KALDIR
+                                  </button>
+                                ) : (
+                                  <button
+                                    onClick={() => setReviewStatus([region.id], 'approved')}
+                                    disabled={!translation.translatedText.trim()}
+                                    className="px-2 py-1 bg-emerald-600/20 hover:bg-emerald-600/30 disabled:opacity-30 rounded-lg text-[10px] font-black text-emerald-300"
+                                  >
+                                    <i className="fa-solid fa-check mr-1"></i>ONAYLA
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => setReviewStatus([region.id], reviewStatus === 'flagged' ? undefined : 'flagged')}
+                                  className="px-2 py-1 bg-red-600/20 hover:bg-red-600/30 rounded-lg text-[10px] font-black text-red-300"
+                                >
+                                  <i className="fa-solid fa-flag mr-1"></i>{reviewStatus === 'flagged' ? 'İŞARETİ KALDIR' : 'İŞARETLE'}
+                                </button>
+                              </div>
+                            </div>
+                            <div className="space-y-2">
+                              <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Çevirmen Notu</label>
+                              <textarea
+                                value={region.notes || ''}
+                                placeholder="Redaktöre not (senaryo dosyasıyla birlikte aktarılır)"
+                                onChange={e => updateRegion(region.id, { notes: e.target.value || undefined })}
+                                className="w-full bg-slate-950 border border-slate-800 rounded-2xl px-4 py-3 text-xs focus:border-blue-500 outline-none resize-none min-h-[50px] text-slate-400 shadow-inner"
+                              />
+                            </div>
+                            <details open={(region.comments?.length ?? 0) > 0} className="bg-slate-950/50 border border-slate-800 rounded-2xl p-4 group/comments">
+                              <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                                <span><i className="fa-solid fa-comments mr-2 text-amber-400"></i>Yorumlar ({region.comments?.length ?? 0})</span>
+                                <i className="fa-solid fa-chevron-down group-open/comments:rotate-180 transition-transform"></i>
+                              </summary>
+                              <div className="pt-4">
+                                <RegionComments
+                                  comments={region.comments || []}
+                                  reviewerName={reviewerName}
+                                  onReviewerNameChange={changeReviewerName}
+                                  onChange={(comments, label) => updateComments(region.id, comments, label)}
+                                />
+                              </div>
+                            </details>
+                            <div className="space-y-2">
+                              <div className="flex justify-between items-center">
+                                <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Temizleme Modu</label>
+                                <button
+                                  onClick={() => applyCleanModeToType(region)}
+                                  disabled={isSfxCaption(region, sfxHandling)}
+                                  title={`Tüm "${regionTypeInfo(regionTypeOf(region)).name}" kutularına uygula`}
+                                  className="text-[10px] font-black text-slate-500 hover:text-white disabled:opacity-30"
+                                >
+                                  AYNI TÜRE UYGULA
+                                </button>
+                              </div>
+                              <select
+                                value={resolveCleanMode(region, sfxHandling)}
+                                onChange={e => updateRegion(region.id, { cleanMode: e.target.value as CleanMode })}
+                                disabled={isSfxCaption(region, sfxHandling)}
+                                className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none disabled:opacity-50"
+                              >
+                                {CLEAN_MODES.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                              </select>
+                              {isSfxCaption(region, sfxHandling) && (
+                                <p className="text-[10px] text-slate-500">Ses efektleri altyazı modunda: orijinal efekt temizlenmez, çeviri kutunun altına küçük açıklama olarak yazılır.</p>
+                              )}
+                            </div>
+                            <details className="bg-slate-950/50 border border-slate-800 rounded-2xl p-4 group/style">
+                              <summary className="text-[10px] font-black text-slate-400 tracking-widest uppercase cursor-pointer list-none flex items-center justify-between">
+                                <span><i className="fa-solid fa-font mr-2 text-blue-400"></i>Dizgi Stili</span>
+                                <i className="fa-solid fa-chevron-down group-open/style:rotate-180 transition-transform"></i>
+                              </summary>
+                              <div className="pt-4">
+                                <StyleControls
+                                  region={region}
+                                  presets={stylePresets}
+                                  customFonts={customFonts}
+                                  onUpdateRegion={updates => updateRegion(region.id, updates)}
+                                  onSavePreset={savePreset}
+                                  onDeletePreset={deletePreset}
+                                  onUploadFont={uploadFont}
+                                />
+                              </div>
+                            </details>
+                            {overflowingRegions.has(region.id) && (
+                              <p className="text-[11px] text-red-400 font-bold">
+                                <i className="fa-solid fa-up-right-and-down-left-from-center mr-2"></i>Metin en küçük font boyutunda bile kutuya sığmıyor.
+                              </p>
+                            )}
+                            {glossaryViolations[region.id] && (
+                              <ul className="space-y-1 text-[11px] text-amber-300">
+                                {glossaryViolations[region.id].map(v => (
+                                  <li key={v.entryId}>
+                                    <i className="fa-solid fa-book mr-2"></i>"{v.source}" → "{v.expected}" kullanılmalı
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
                           </>
                         );
                       })()}
@@ -424,14 +1754,14 @@ const App: React.FC = () => {
                       <div className="w-16 h-16 bg-slate-900 rounded-full flex items-center justify-center mx-auto mb-4 opacity-50">
                         <i className="fa-solid fa-i-cursor text-2xl"></i>
                       </div>
-                      <p className="text-xs font-bold text-slate-500 max-w-[200px] mx-auto leading-relaxed">Görsel üzerinde sürükleyerek yeni bir kutu çizin veya düzenlemek için birine tıklayın.</p>
+                      <p className="text-xs font-bold text-slate-500 max-w-[200px] mx-auto leading-relaxed">Görsel üzerinde sürükleyerek yeni bir kutu çizin veya düzenlemek için birine tıklayın. Shift ile çoklu seçim yapabilirsiniz.</p>
                     </div>
                   )}
                 </div>
 
                 <div className="flex flex-col gap-3">
                   <button 
-                    onClick={downloadFinal} 
+                    onClick={() => setShowExportDialog(true)} 
                     disabled={mergedImage?.regions.length === 0 || isProcessing}
                     className="w-full py-5 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 disabled:opacity-30 rounded-3xl font-black text-sm shadow-xl shadow-blue-600/20 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
                   >
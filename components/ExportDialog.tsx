@@ -0,0 +1,185 @@
+
+import React, { useState } from 'react';
+import { ExportOptions, ExportFormat, ExportSliceMode, ExportArchive } from '../types';
+import { EXPORT_FORMATS, formatExportFileName } from '../services/exportService';
+
+interface ExportDialogProps {
+  options: ExportOptions;
+  pageCount: number;
+  // Projenin hedef dilleri; başlangıçta hepsi seçilidir
+  languages: string[];
+  // Dile göre çevirisi boş olan (kaynak metinle basılacak) kutu sayısı
+  missingTranslations: Record<string, number>;
+  // Dile göre henüz onaylanmamış kutu sayısı; varsa dışa aktarma ayrıca onay ister
+  unapproved: Record<string, number>;
+  isProcessing: boolean;
+  processingStatus: string;
+  onChange: (options: ExportOptions) => void;
+  onExport: (langs: string[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none focus:border-blue-500";
+const labelClass = "text-[10px] font-black text-slate-500 tracking-widest uppercase";
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  options,
+  pageCount,
+  languages,
+  missingTranslations,
+  unapproved,
+  isProcessing,
+  processingStatus,
+  onChange,
+  onExport,
+  onClose
+}) => {
+  const [selectedLangs, setSelectedLangs] = useState(languages);
+  const [acceptUnapproved, setAcceptUnapproved] = useState(false);
+  const unapprovedLangs = selectedLangs.filter(lang => unapproved[lang] > 0);
+  const set = (updates: Partial<ExportOptions>) => onChange({ ...options, ...updates });
+  // Sabit yükseklikte dilim sayısı kesim noktaları hesaplanmadan bilinmez; örnek için sayfa sayısı kullanılır
+  const sampleName = formatExportFileName(options.fileNamePattern, { index: 0, total: pageCount, lang: selectedLangs[0] || languages[0], date: new Date() });
+
+  const toggleLang = (lang: string) =>
+    setSelectedLangs(prev => prev.includes(lang) ? prev.filter(l => l !== lang) : languages.filter(l => l === lang || prev.includes(l)));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={() => !isProcessing && onClose()}>
+      <div
+        className="w-full max-w-lg bg-slate-900 border border-slate-800 rounded-[2rem] p-8 shadow-2xl space-y-6"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-black text-slate-300 uppercase tracking-[0.2em]">
+            <i className="fa-solid fa-file-export mr-2 text-blue-400"></i>Dışa Aktar
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="w-8 h-8 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 text-xs">
+            <i className="fa-solid fa-times"></i>
+          </button>
+        </div>
+
+        {languages.length > 1 && (
+          <div className="space-y-2">
+            <label className={labelClass}>Diller</label>
+            <div className="flex flex-wrap gap-2">
+              {languages.map(lang => (
+                <button
+                  key={lang}
+                  onClick={() => toggleLang(lang)}
+                  className={`px-3 py-2 rounded-xl text-[10px] font-black ${selectedLangs.includes(lang) ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+                >
+                  {lang}
+                  {missingTranslations[lang] > 0 && <span className="ml-1 text-amber-300">({missingTranslations[lang]} eksik)</span>}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500">Her dil ayrı bir arşiv olarak indirilir; temizlik her sayfa için bir kez yapılır.</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className={labelClass}>Dilimleme</label>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              ['pages', 'Orijinal Sayfalar', 'fa-file-image'],
+              ['fixed', 'Sabit Yükseklik', 'fa-ruler-vertical']
+            ] as [ExportSliceMode, string, string][]).map(([mode, name, icon]) => (
+              <button
+                key={mode}
+                onClick={() => set({ sliceMode: mode })}
+                className={`py-3 rounded-xl text-[10px] font-black ${options.sliceMode === mode ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+              >
+                <i className={`fa-solid ${icon} mr-2`}></i>{name}
+              </button>
+            ))}
+          </div>
+          {options.sliceMode === 'fixed' && (
+            <div className="space-y-1 pt-2">
+              <label className={labelClass}>Dilim Yüksekliği (px)</label>
+              <input
+                type="number" min={100} step={100}
+                value={options.sliceHeight}
+                onChange={e => set({ sliceHeight: Math.max(100, Number(e.target.value)) })}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-slate-500">Kesimler bu yüksekliğe yakın boş satırlara kaydırılır; balonlar bölünmez.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className={labelClass}>Biçim</label>
+            <select value={options.format} onChange={e => set({ format: e.target.value as ExportFormat })} className={inputClass}>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMATS[f].name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Kalite ({Math.round(options.quality * 100)})</label>
+            <input
+              type="range" min={0.5} max={1} step={0.01}
+              value={options.quality}
+              disabled={options.format === 'png'}
+              onChange={e => set({ quality: Number(e.target.value) })}
+              className="w-full disabled:opacity-30"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <label className={labelClass}>Dosya Adı Şablonu</label>
+          <input value={options.fileNamePattern} onChange={e => set({ fileNamePattern: e.target.value })} className={inputClass} />
+          <p className="text-[10px] text-slate-500">
+            {'{n}'} sıra no · {'{total}'} toplam · {'{lang}'} dil · {'{date}'} tarih — örnek: <span className="text-slate-300">{sampleName}.{EXPORT_FORMATS[options.format].extension}</span>
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label className={labelClass}>Arşiv</label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['zip', 'cbz'] as ExportArchive[]).map(archive => (
+              <button
+                key={archive}
+                onClick={() => set({ archive })}
+                className={`py-2 rounded-xl text-[10px] font-black uppercase ${options.archive === archive ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+              >
+                .{archive}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {unapprovedLangs.length > 0 && (
+          <div className="bg-amber-500/10 border border-amber-500/30 rounded-2xl p-4 space-y-2">
+            <p className="text-[11px] text-amber-200">
+              <i className="fa-solid fa-triangle-exclamation mr-2 text-amber-400"></i>
+              Onaylanmamış kutular var: {unapprovedLangs.map(lang => `${lang} (${unapproved[lang]})`).join(', ')}.
+            </p>
+            <label className="flex items-center gap-2 text-[11px] text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={acceptUnapproved} onChange={e => setAcceptUnapproved(e.target.checked)} />
+              İncelemesi bitmeden yine de dışa aktar
+            </label>
+          </div>
+        )}
+
+        {isProcessing && (
+          <div className="bg-blue-600/10 border border-blue-500/20 p-4 rounded-2xl flex items-center gap-4 animate-pulse">
+            <i className="fa-solid fa-circle-notch fa-spin text-blue-400"></i>
+            <span className="text-xs font-bold text-blue-200">{processingStatus}</span>
+          </div>
+        )}
+
+        <button
+          onClick={() => onExport(selectedLangs)}
+          disabled={isProcessing || selectedLangs.length === 0 || (unapprovedLangs.length > 0 && !acceptUnapproved)}
+          className="w-full py-4 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 disabled:opacity-30 rounded-2xl font-black text-sm flex items-center justify-center gap-3"
+        >
+          <i className="fa-solid fa-download"></i> İNDİR
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,83 @@
+
+import React from 'react';
+import { GlossaryEntry } from '../types';
+import { glossaryToCsv, glossaryToJson, parseGlossaryFile, mergeGlossaries } from '../services/glossaryService';
+import { downloadText } from '../services/fileUtils';
+
+interface GlossaryPanelProps {
+  glossary: GlossaryEntry[];
+  onChange: (glossary: GlossaryEntry[]) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[11px] focus:border-blue-500 outline-none";
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossary, onChange }) => {
+  const updateEntry = (id: string, updates: Partial<GlossaryEntry>) =>
+    onChange(glossary.map(e => e.id === id ? { ...e, ...updates } : e));
+
+  const addEntry = () =>
+    onChange([...glossary, { id: Math.random().toString(36).substr(2, 9), source: '', target: '' }]);
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(mergeGlossaries(glossary, parseGlossaryFile(file.name, await file.text())));
+    } catch (err) {
+      console.error("Sözlük içe aktarma hatası:", err);
+      alert("Sözlük dosyası okunamadı.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-64 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+        {glossary.length === 0 && (
+          <p className="text-[11px] text-slate-500 text-center py-4">Henüz terim eklenmedi.</p>
+        )}
+        {glossary.map(entry => (
+          <div key={entry.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-start">
+            <input value={entry.source} placeholder="Kaynak terim" onChange={e => updateEntry(entry.id, { source: e.target.value })} className={inputClass} />
+            <input value={entry.target} placeholder="Zorunlu çeviri" onChange={e => updateEntry(entry.id, { target: e.target.value })} className={inputClass} />
+            <button onClick={() => onChange(glossary.filter(e => e.id !== entry.id))} className="w-7 h-7 text-red-500 hover:text-red-400">
+              <i className="fa-solid fa-trash text-[10px]"></i>
+            </button>
+            <input
+              value={entry.notes || ''}
+              placeholder="Not (ör. -nim ekini koru)"
+              onChange={e => updateEntry(entry.id, { notes: e.target.value || undefined })}
+              className={`${inputClass} col-span-2 text-slate-400`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={addEntry} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-[10px] font-black">
+          <i className="fa-solid fa-plus mr-1"></i> TERİM
+        </button>
+        <input type="file" accept=".json,.csv" onChange={importFile} className="hidden" id="glossary-import" />
+        <label htmlFor="glossary-import" className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black cursor-pointer">
+          İÇE AKTAR
+        </label>
+        <button
+          onClick={() => downloadText(glossaryToJson(glossary), 'glossary.json', 'application/json')}
+          disabled={glossary.length === 0}
+          className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black disabled:opacity-30"
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => downloadText(glossaryToCsv(glossary), 'glossary.csv', 'text/csv')}
+          disabled={glossary.length === 0}
+          className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black disabled:opacity-30"
+        >
+          CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
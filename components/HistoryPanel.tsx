@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { HistoryState } from '../services/historyService';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  // null: ilk düzenlemeden önceki hale dön
+  onJump: (entryId: string | null) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const { past, future } = history;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onUndo}
+          disabled={past.length === 0}
+          title="Geri al (Ctrl+Z)"
+          className="py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded-xl text-[10px] font-black"
+        >
+          <i className="fa-solid fa-rotate-left mr-2"></i>GERİ AL
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={future.length === 0}
+          title="Yinele (Ctrl+Shift+Z)"
+          className="py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded-xl text-[10px] font-black"
+        >
+          <i className="fa-solid fa-rotate-right mr-2"></i>YİNELE
+        </button>
+      </div>
+
+      <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1">
+        <button
+          onClick={() => onJump(null)}
+          className={`w-full text-left px-3 py-2 rounded-lg text-[11px] ${past.length === 0 ? 'bg-blue-600/20 text-blue-200' : 'text-slate-500 hover:bg-slate-800'}`}
+        >
+          Başlangıç
+        </button>
+        {past.map((entry, i) => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(entry.id)}
+            className={`w-full flex justify-between gap-2 px-3 py-2 rounded-lg text-[11px] text-left ${i === past.length - 1 ? 'bg-blue-600/20 text-blue-200' : 'text-slate-300 hover:bg-slate-800'}`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="text-slate-500 shrink-0">{formatTime(entry.time)}</span>
+          </button>
+        ))}
+        {/* Geri alınmış adımlar soluk gösterilir; yeni bir düzenleme yapılınca silinir */}
+        {future.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(entry.id)}
+            className="w-full flex justify-between gap-2 px-3 py-2 rounded-lg text-[11px] text-left text-slate-600 line-through hover:bg-slate-800"
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="shrink-0">{formatTime(entry.time)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,142 +1,572 @@
 
-import React, { useRef, useEffect, useState } from 'react';
-import { TextRegion } from '../types';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { TextRegion, ProposedRegion, StripTile } from '../types';
+import { drawRegionText, TextPlacement } from '../services/textRenderer';
+import { regionToPixels } from '../services/imageUtils';
+import { displayTextOf } from '../services/regionTranslations';
+import { DEFAULT_REGION_TYPE, regionTypeInfo, regionTypeOf } from '../services/regionTypes';
+import {
+  RegionRect,
+  ResizeHandle,
+  AlignMode,
+  RESIZE_HANDLES,
+  MIN_REGION_SIZE,
+  boundsOf,
+  rectsIntersect,
+  collectSnapTargets,
+  findSnap,
+  resizeRect,
+  clampGroupDelta,
+  alignRegions
+} from '../services/regionGeometry';
 
 interface ImageCanvasProps {
-  imageUrl: string;
+  tiles: StripTile[];
+  // Şeridin piksel boyutu; kutu yüzdeleri buna göredir
+  stripWidth: number;
+  stripHeight: number;
   regions: TextRegion[];
+  targetLang: string; // Dizgi önizlemesinde gösterilen dil
   onAddRegion: (region: Omit<TextRegion, 'id' | 'order'>) => void;
-  onUpdateRegion: (id: string, updates: Partial<TextRegion>) => void;
-  onRemoveRegion: (id: string) => void;
-  selectedRegionId: string | null;
-  onSelectRegion: (id: string | null) => void;
+  onUpdateRegions: (updates: Record<string, Partial<TextRegion>>) => void;
+  onRemoveRegions: (ids: string[]) => void;
+  selectedRegionIds: string[];
+  onSelectRegions: (ids: string[]) => void;
+  proposals?: ProposedRegion[];
+  onToggleProposal?: (id: string) => void;
+  previews?: Record<string, string>;
+  textPlacements?: Record<string, TextPlacement>;
+  warnings?: Record<string, string>;
+  // Her istek yeni bir nesnedir; aynı kutuya tekrar kaydırmak için de yeni nesne verilir
+  scrollRequest?: { id: string } | null;
+  showOrder?: boolean; // Okuma sırasını kutu merkezlerini birleştiren oklarla gösterir
+  // Dışa aktarmayla aynı çizilmiş sayfalar (pageId → URL); verilirse orijinalin üzerine serilir
+  translatedTiles?: Record<string, string>;
+  split?: number; // Çevrilmiş katmanın soldan görünen genişliği (%)
+  hideChrome?: boolean; // Kutu çerçevesi, numara ve düğmeleri gizler
 }
 
+type DragState =
+  | { kind: 'draw', start: { x: number, y: number } }
+  | { kind: 'marquee', start: { x: number, y: number }, baseSelection: string[] }
+  | { kind: 'move', start: { x: number, y: number }, origin: Record<string, RegionRect>, clickedId: string }
+  | { kind: 'resize', start: { x: number, y: number }, id: string, handle: ResizeHandle, origin: RegionRect };
+
+// Kenarların başka kutulara yapışacağı ekran mesafesi (piksel)
+const SNAP_DISTANCE_PX = 6;
+
+const HANDLE_POSITIONS: Record<ResizeHandle, string> = {
+  nw: 'left-0 top-0 cursor-nwse-resize',
+  n: 'left-1/2 top-0 cursor-ns-resize',
+  ne: 'left-full top-0 cursor-nesw-resize',
+  e: 'left-full top-1/2 cursor-ew-resize',
+  se: 'left-full top-full cursor-nwse-resize',
+  s: 'left-1/2 top-full cursor-ns-resize',
+  sw: 'left-0 top-full cursor-nesw-resize',
+  w: 'left-0 top-1/2 cursor-ew-resize'
+};
+
+const ALIGN_ACTIONS: { mode: AlignMode, icon: string, title: string }[] = [
+  { mode: 'left', icon: 'fa-align-left', title: 'Sola hizala' },
+  { mode: 'center', icon: 'fa-align-center', title: 'Yatayda ortala' },
+  { mode: 'right', icon: 'fa-align-right', title: 'Sağa hizala' },
+  { mode: 'top', icon: 'fa-arrow-up-long', title: 'Üste hizala' },
+  { mode: 'middle', icon: 'fa-grip-lines', title: 'Dikeyde ortala' },
+  { mode: 'bottom', icon: 'fa-arrow-down-long', title: 'Alta hizala' }
+];
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+// Dizgiyi dışa aktarmayla aynı çizim fonksiyonuyla, görselin gerçek piksel ölçeğinde çizer.
+// Yazı alanı kutunun dışına düşebilir (ses efekti açıklaması); katman kutuya göre konumlanır.
+const RegionTextLayer: React.FC<{ region: TextRegion, text: string, placement: TextPlacement, naturalSize: { w: number, h: number } }> = ({ region, text, placement, naturalSize }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { rect, style } = placement;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = Math.max(1, Math.round(rect.w));
+    canvas.height = Math.max(1, Math.round(rect.h));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawRegionText(ctx, text, { x: 0, y: 0, w: canvas.width, h: canvas.height }, style);
+  }, [text, style, rect.w, rect.h]);
+
+  const box = regionToPixels(region, naturalSize.w, naturalSize.h);
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute pointer-events-none"
+      style={{
+        left: `${(rect.x - box.x) / box.w * 100}%`,
+        top: `${(rect.y - box.y) / box.h * 100}%`,
+        width: `${rect.w / box.w * 100}%`,
+        height: `${rect.h / box.h * 100}%`
+      }}
+    />
+  );
+};
+
 const ImageCanvas: React.FC<ImageCanvasProps> = ({
-  imageUrl,
+  tiles,
+  stripWidth,
+  stripHeight,
   regions,
+  targetLang,
   onAddRegion,
-  onUpdateRegion,
-  onRemoveRegion,
-  selectedRegionId,
-  onSelectRegion
+  onUpdateRegions,
+  onRemoveRegions,
+  selectedRegionIds,
+  onSelectRegions,
+  proposals = [],
+  onToggleProposal,
+  previews = {},
+  textPlacements,
+  warnings = {},
+  scrollRequest,
+  showOrder = false,
+  translatedTiles,
+  split = 100,
+  hideChrome = false
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [startPos, setStartPos] = useState<{ x: number, y: number } | null>(null);
-  const [currentRect, setCurrentRect] = useState<{ x: number, y: number, w: number, h: number } | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [currentRect, setCurrentRectState] = useState<{ x: number, y: number, w: number, h: number } | null>(null);
+  const [draft, setDraftState] = useState<Record<string, RegionRect> | null>(null);
+  // Fare bırakıldığında en güncel değerler state güncellemesini beklemeden okunabilsin diye ref'te de tutulur
+  const currentRectRef = useRef(currentRect);
+  const draftRef = useRef(draft);
+  const setCurrentRect = (rect: typeof currentRect) => { currentRectRef.current = rect; setCurrentRectState(rect); };
+  const setDraft = (next: typeof draft) => { draftRef.current = next; setDraftState(next); };
+  const [guides, setGuides] = useState<{ x?: number, y?: number }>({});
+  const naturalSize = useMemo(() => ({ w: stripWidth, h: stripHeight }), [stripWidth, stripHeight]);
+
+  const toPercent = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width) * 100,
+      y: ((clientY - rect.top) / rect.height) * 100
+    };
+  };
+
+  const snapThreshold = () => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: (SNAP_DISTANCE_PX / rect.width) * 100, y: (SNAP_DISTANCE_PX / rect.height) * 100 };
+  };
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (!containerRef.current) return;
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-    
-    // Mevcut bir kutucuğa tıklandığını kontrol et
-    // Tolerans payı ekleyerek seçimi kolaylaştırıyoruz
-    const clickedRegion = [...regions].sort((a,b) => b.order - a.order).find(r => 
-      x >= r.x && x <= r.x + r.width && y >= r.y && y <= r.y + r.height
+    if (!containerRef.current || e.button !== 0) return;
+    const { x, y } = toPercent(e.clientX, e.clientY);
+
+    // Öneri kutusuna tıklamak onu kabul/ret arasında değiştirir
+    const clickedProposal = proposals.find(p =>
+      x >= p.x && x <= p.x + p.width && y >= p.y && y <= p.y + p.height
     );
-    
-    if (clickedRegion) {
-      onSelectRegion(clickedRegion.id);
+
+    if (clickedProposal && onToggleProposal) {
+      onToggleProposal(clickedProposal.id);
       return;
     }
 
-    onSelectRegion(null);
-    setIsDrawing(true);
-    setStartPos({ x, y });
+    // Shift ile boş alanda sürüklemek çoklu seçim çerçevesi açar, aksi halde yeni kutu çizilir
+    if (e.shiftKey) {
+      dragRef.current = { kind: 'marquee', start: { x, y }, baseSelection: selectedRegionIds };
+    } else {
+      onSelectRegions([]);
+      dragRef.current = { kind: 'draw', start: { x, y } };
+    }
     setCurrentRect({ x, y, w: 0, h: 0 });
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDrawing || !startPos || !containerRef.current) return;
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
-
-    setCurrentRect({
-      x: Math.min(x, startPos.x),
-      y: Math.min(y, startPos.y),
-      w: Math.abs(x - startPos.x),
-      h: Math.abs(y - startPos.y)
+  const handleRegionMouseDown = (e: React.MouseEvent, region: TextRegion) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    const start = toPercent(e.clientX, e.clientY);
+
+    if (e.shiftKey) {
+      onSelectRegions(selectedRegionIds.includes(region.id)
+        ? selectedRegionIds.filter(id => id !== region.id)
+        : [...selectedRegionIds, region.id]);
+      return;
+    }
+
+    const selection = selectedRegionIds.includes(region.id) ? selectedRegionIds : [region.id];
+    if (selection !== selectedRegionIds) onSelectRegions(selection);
+    const origin: Record<string, RegionRect> = {};
+    regions.filter(r => selection.includes(r.id)).forEach(r => {
+      origin[r.id] = { x: r.x, y: r.y, width: r.width, height: r.height };
     });
+    dragRef.current = { kind: 'move', start, origin, clickedId: region.id };
   };
 
-  const handleMouseUp = () => {
-    // Sınırı 1'den 0.05'e çektik (neredeyse görünmez kutulara izin verir)
-    if (isDrawing && currentRect && currentRect.w > 0.05 && currentRect.h > 0.05) {
-      onAddRegion({
-        x: currentRect.x,
-        y: currentRect.y,
-        width: currentRect.w,
-        height: currentRect.h,
-        originalText: '',
-        translatedText: ''
-      });
-    }
-    setIsDrawing(false);
-    setStartPos(null);
-    setCurrentRect(null);
+  const handleResizeMouseDown = (e: React.MouseEvent, region: TextRegion, handle: ResizeHandle) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    dragRef.current = {
+      kind: 'resize',
+      start: toPercent(e.clientX, e.clientY),
+      id: region.id,
+      handle,
+      origin: { x: region.x, y: region.y, width: region.width, height: region.height }
+    };
   };
 
+  // Sürükleme pencere seviyesinde izlenir; imleç görselin dışına çıksa da işlem devam eder
+  useEffect(() => {
+    const handleMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !containerRef.current) return;
+      const { x, y } = toPercent(e.clientX, e.clientY);
+
+      if (drag.kind === 'draw' || drag.kind === 'marquee') {
+        const cx = Math.max(0, Math.min(100, x)), cy = Math.max(0, Math.min(100, y));
+        setCurrentRect({
+          x: Math.min(cx, drag.start.x),
+          y: Math.min(cy, drag.start.y),
+          w: Math.abs(cx - drag.start.x),
+          h: Math.abs(cy - drag.start.y)
+        });
+        return;
+      }
+
+      const threshold = snapThreshold();
+
+      if (drag.kind === 'move') {
+        const ids = Object.keys(drag.origin);
+        const rects = ids.map(id => drag.origin[id]);
+        let { dx, dy } = clampGroupDelta(rects, x - drag.start.x, y - drag.start.y);
+        const b = boundsOf(rects);
+        const targets = collectSnapTargets(regions, ids);
+        const snapX = findSnap([b.x + dx, b.x + dx + b.width / 2, b.x + dx + b.width], targets.xs, threshold.x);
+        const snapY = findSnap([b.y + dy, b.y + dy + b.height / 2, b.y + dy + b.height], targets.ys, threshold.y);
+        if (snapX) dx += snapX.delta;
+        if (snapY) dy += snapY.delta;
+        ({ dx, dy } = clampGroupDelta(rects, dx, dy));
+        setGuides({ x: snapX?.guide, y: snapY?.guide });
+
+        const next: Record<string, RegionRect> = {};
+        ids.forEach(id => { next[id] = { ...drag.origin[id], x: drag.origin[id].x + dx, y: drag.origin[id].y + dy }; });
+        setDraft(next);
+        return;
+      }
+
+      let resized = resizeRect(drag.origin, drag.handle, x - drag.start.x, y - drag.start.y);
+      const targets = collectSnapTargets(regions, [drag.id]);
+      const movingX = drag.handle.includes('w') ? resized.x : drag.handle.includes('e') ? resized.x + resized.width : null;
+      const movingY = drag.handle.includes('n') ? resized.y : drag.handle.includes('s') ? resized.y + resized.height : null;
+      const snapX = movingX !== null ? findSnap([movingX], targets.xs, threshold.x) : null;
+      const snapY = movingY !== null ? findSnap([movingY], targets.ys, threshold.y) : null;
+      if (snapX || snapY) {
+        resized = resizeRect(drag.origin, drag.handle, x - drag.start.x + (snapX?.delta ?? 0), y - drag.start.y + (snapY?.delta ?? 0));
+      }
+      setGuides({ x: snapX?.guide, y: snapY?.guide });
+      setDraft({ [drag.id]: resized });
+    };
+
+    const handleUp = () => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      dragRef.current = null;
+
+      const rect = currentRectRef.current;
+      const moved = draftRef.current;
+
+      // Sınırı 1'den 0.05'e çektik (neredeyse görünmez kutulara izin verir)
+      if (drag.kind === 'draw' && rect && rect.w > MIN_REGION_SIZE && rect.h > MIN_REGION_SIZE) {
+        onAddRegion({
+          x: rect.x,
+          y: rect.y,
+          width: rect.w,
+          height: rect.h,
+          originalText: '',
+          translations: {}
+        });
+      }
+      if (drag.kind === 'marquee' && rect) {
+        const box = { x: rect.x, y: rect.y, width: rect.w, height: rect.h };
+        const hits = regions.filter(r => rectsIntersect(r, box)).map(r => r.id);
+        onSelectRegions(Array.from(new Set([...drag.baseSelection, ...hits])));
+      }
+      if (moved) {
+        onUpdateRegions(moved);
+      } else if (drag.kind === 'move' && Object.keys(drag.origin).length > 1) {
+        // Sürüklemeden yapılan tıklama çoklu seçimi tıklanan kutuya indirger
+        onSelectRegions([drag.clickedId]);
+      }
+
+      setCurrentRect(null);
+      setDraft(null);
+      setGuides({});
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [regions, onAddRegion, onUpdateRegions, onSelectRegions]);
+
+  // Klavye: ok tuşlarıyla 1 piksel kaydırma (Shift ile 10 piksel), Delete ile silme, Esc ile seçimi bırakma
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || selectedRegionIds.length === 0) return;
+      const selected = regions.filter(r => selectedRegionIds.includes(r.id));
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        onRemoveRegions(selectedRegionIds);
+        return;
+      }
+      if (e.key === 'Escape') {
+        onSelectRegions([]);
+        return;
+      }
+
+      // Adım şerit pikseli cinsindendir; kutular yüzdeyle tutulduğu için her eksende ayrı çevrilir
+      const step = e.shiftKey ? 10 : 1;
+      const sx = step / stripWidth * 100, sy = step / stripHeight * 100;
+      const deltas: Record<string, [number, number]> = {
+        ArrowLeft: [-sx, 0], ArrowRight: [sx, 0], ArrowUp: [0, -sy], ArrowDown: [0, sy]
+      };
+      if (!deltas[e.key] || selected.length === 0) return;
+      e.preventDefault();
+      const { dx, dy } = clampGroupDelta(selected, deltas[e.key][0], deltas[e.key][1]);
+      const updates: Record<string, Partial<TextRegion>> = {};
+      selected.forEach(r => { updates[r.id] = { x: r.x + dx, y: r.y + dy }; });
+      onUpdateRegions(updates);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [regions, selectedRegionIds, stripWidth, stripHeight, onUpdateRegions, onRemoveRegions, onSelectRegions]);
+
+  useEffect(() => {
+    if (!scrollRequest) return;
+    containerRef.current
+      ?.querySelector(`[data-region-id="${scrollRequest.id}"]`)
+      ?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [scrollRequest]);
+
+  const selectedRegions = regions.filter(r => selectedRegionIds.includes(r.id));
+
   return (
-    <div 
-      ref={containerRef}
-      className="relative w-full overflow-hidden cursor-crosshair select-none bg-black rounded-lg shadow-2xl border border-slate-700"
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
-    >
-      <img 
-        src={imageUrl} 
-        alt="Webtoon Panel" 
-        className="w-full h-auto block"
-        draggable={false}
-      />
-      
-      {/* Mevcut Bölgeler */}
-      {regions.map((region) => (
-        <div
-          key={region.id}
-          className={`absolute border-2 transition-all flex items-center justify-center group ${
-            selectedRegionId === region.id 
-              ? 'border-blue-500 bg-blue-500/30 z-20 shadow-[0_0_15px_rgba(59,130,246,0.5)]' 
-              : 'border-yellow-400/80 bg-yellow-400/5 z-10 hover:bg-yellow-400/20'
-          }`}
-          style={{
-            left: `${region.x}%`,
-            top: `${region.y}%`,
-            width: `${region.width}%`,
-            height: `${region.height}%`,
-          }}
-        >
-          <span className="absolute -top-5 -left-1 bg-slate-900 text-white text-[9px] px-1 rounded border border-slate-700 font-bold whitespace-nowrap shadow-lg">
-            #{region.order}
-          </span>
-          <button 
-            onClick={(e) => { e.stopPropagation(); onRemoveRegion(region.id); }}
-            className="hidden group-hover:flex absolute -top-2 -right-2 w-5 h-5 items-center justify-center bg-red-500 text-white rounded-full text-[10px] shadow-lg hover:scale-110 transition-transform"
+    <>
+      {selectedRegions.length > 1 && (
+        <div className="sticky top-0 z-40 mb-3 flex items-center gap-2 bg-slate-900/95 border border-slate-700 rounded-2xl p-2 shadow-xl">
+          <span className="px-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">{selectedRegions.length} seçili</span>
+          {ALIGN_ACTIONS.map(action => (
+            <button
+              key={action.mode}
+              title={action.title}
+              onClick={() => onUpdateRegions(alignRegions(selectedRegions, action.mode))}
+              className="w-8 h-8 flex items-center justify-center bg-slate-800 hover:bg-blue-600 rounded-lg text-xs transition-colors"
+            >
+              <i className={`fa-solid ${action.icon}`}></i>
+            </button>
+          ))}
+          <button
+            onClick={() => onRemoveRegions(selectedRegionIds)}
+            className="ml-auto px-3 h-8 bg-red-600/80 hover:bg-red-500 rounded-lg text-[10px] font-black transition-colors"
           >
-            <i className="fa-solid fa-times"></i>
+            <i className="fa-solid fa-trash mr-1"></i> SİL
           </button>
         </div>
-      ))}
-
-      {/* Çizim Sırasındaki Dikdörtgen */}
-      {currentRect && (
-        <div 
-          className="absolute border-2 border-dashed border-cyan-400 bg-cyan-400/20 z-30 pointer-events-none"
-          style={{
-            left: `${currentRect.x}%`,
-            top: `${currentRect.y}%`,
-            width: `${currentRect.w}%`,
-            height: `${currentRect.h}%`,
-          }}
-        />
       )}
-    </div>
+
+      <div
+        ref={containerRef}
+        className="relative w-full overflow-hidden cursor-crosshair select-none bg-black rounded-lg shadow-2xl border border-slate-700"
+        onMouseDown={handleMouseDown}
+      >
+        {/* Sayfalar ayrı görseller olarak dizilir; tarayıcı yalnızca görünenleri çözer */}
+        <div className="w-full" style={{ aspectRatio: `${stripWidth} / ${stripHeight}` }}>
+          {tiles.map(tile => (
+            <img
+              key={tile.pageId}
+              src={tile.url}
+              alt="Webtoon Panel"
+              loading="lazy"
+              className="absolute left-0 block"
+              draggable={false}
+              style={{
+                top: `${(tile.y / stripHeight) * 100}%`,
+                width: `${(tile.width / stripWidth) * 100}%`,
+                height: `${(tile.height / stripHeight) * 100}%`
+              }}
+            />
+          ))}
+        </div>
+
+        {/* Çevrilmiş Sayfalar (henüz çizilmemiş sayfalarda orijinal görünür) */}
+        {translatedTiles && (
+          <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+            {tiles.filter(tile => translatedTiles[tile.pageId]).map(tile => (
+              <img
+                key={tile.pageId}
+                src={translatedTiles[tile.pageId]}
+                alt=""
+                className="absolute left-0 block"
+                draggable={false}
+                style={{
+                  top: `${(tile.y / stripHeight) * 100}%`,
+                  width: `${(tile.width / stripWidth) * 100}%`,
+                  height: `${(tile.height / stripHeight) * 100}%`
+                }}
+              />
+            ))}
+          </div>
+        )}
+        {translatedTiles && split > 0 && split < 100 && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white/80 shadow-[0_0_6px_rgba(0,0,0,0.8)] z-[26] pointer-events-none" style={{ left: `${split}%` }} />
+        )}
+
+        {/* Mevcut Bölgeler */}
+        {regions.map((original) => {
+          const region = draft?.[original.id] ? { ...original, ...draft[original.id] } : original;
+          const isSelected = selectedRegionIds.includes(region.id);
+          return (
+            <div
+              key={region.id}
+              data-region-id={region.id}
+              onMouseDown={e => handleRegionMouseDown(e, original)}
+              className={`absolute border-2 transition-colors flex items-center justify-center group cursor-move ${
+                hideChrome
+                  ? isSelected ? 'border-blue-500/60 z-20' : 'border-transparent z-10'
+                  : isSelected
+                    ? 'border-blue-500 bg-blue-500/30 z-20 shadow-[0_0_15px_rgba(59,130,246,0.5)]'
+                    : 'border-yellow-400/80 bg-yellow-400/5 z-10 hover:bg-yellow-400/20'
+              }`}
+              style={{
+                left: `${region.x}%`,
+                top: `${region.y}%`,
+                width: `${region.width}%`,
+                height: `${region.height}%`,
+              }}
+            >
+              {/* Bütün sayfa önizlemesi açıkken kutu başına önizlemeler gereksizdir */}
+              {!translatedTiles && previews[region.id] && (
+                <img
+                  src={previews[region.id]}
+                  alt=""
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  draggable={false}
+                />
+              )}
+              {!translatedTiles && textPlacements?.[region.id] && (
+                <RegionTextLayer region={region} text={displayTextOf(region, targetLang)} placement={textPlacements[region.id]} naturalSize={naturalSize} />
+              )}
+              {!hideChrome && <>
+                <span className="absolute -top-5 -left-1 bg-slate-900 text-white text-[9px] px-1 rounded border border-slate-700 font-bold whitespace-nowrap shadow-lg">
+                  #{region.order}
+                  {regionTypeOf(region) !== DEFAULT_REGION_TYPE && <i className={`fa-solid ${regionTypeInfo(regionTypeOf(region)).icon} ml-1 text-cyan-300`}></i>}
+                </span>
+                {warnings[region.id] && (
+                  <span title={warnings[region.id]} className="absolute -bottom-2 -left-2 w-4 h-4 flex items-center justify-center bg-amber-500 text-black rounded-full text-[9px] shadow-lg">
+                    <i className="fa-solid fa-exclamation"></i>
+                  </span>
+                )}
+                <button
+                  onMouseDown={e => e.stopPropagation()}
+                  onClick={(e) => { e.stopPropagation(); onRemoveRegions([region.id]); }}
+                  className="hidden group-hover:flex absolute -top-2 -right-2 w-5 h-5 items-center justify-center bg-red-500 text-white rounded-full text-[10px] shadow-lg hover:scale-110 transition-transform"
+                >
+                  <i className="fa-solid fa-times"></i>
+                </button>
+                {isSelected && selectedRegionIds.length === 1 && RESIZE_HANDLES.map(handle => (
+                  <span
+                    key={handle}
+                    onMouseDown={e => handleResizeMouseDown(e, original, handle)}
+                    className={`absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 bg-white border border-blue-600 rounded-sm z-30 ${HANDLE_POSITIONS[handle]}`}
+                  />
+                ))}
+              </>}
+            </div>
+          );
+        })}
+
+        {/* Okuma Sırası Okları (şerit piksel koordinatlarında; ok başları orantılı kalsın diye) */}
+        {showOrder && !hideChrome && regions.length > 1 && (() => {
+          const centers = [...regions]
+            .map(r => draft?.[r.id] ? { ...r, ...draft[r.id] } : r)
+            .sort((a, b) => a.order - b.order)
+            .map(r => ({ x: (r.x + r.width / 2) / 100 * stripWidth, y: (r.y + r.height / 2) / 100 * stripHeight }));
+          const stroke = Math.max(2, stripWidth * 0.004);
+          return (
+            <svg
+              className="absolute inset-0 w-full h-full z-[25] pointer-events-none"
+              viewBox={`0 0 ${stripWidth} ${stripHeight}`}
+            >
+              <defs>
+                <marker id="order-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#f472b6" />
+                </marker>
+              </defs>
+              {centers.slice(1).map((c, i) => (
+                <line
+                  key={i}
+                  x1={centers[i].x}
+                  y1={centers[i].y}
+                  x2={c.x}
+                  y2={c.y}
+                  stroke="#f472b6"
+                  strokeOpacity={0.85}
+                  strokeWidth={stroke}
+                  markerEnd="url(#order-arrow)"
+                />
+              ))}
+              <circle cx={centers[0].x} cy={centers[0].y} r={stroke * 2.5} fill="#f472b6" />
+            </svg>
+          );
+        })()}
+
+        {/* Otomatik Algılama Önerileri */}
+        {!hideChrome && proposals.map((proposal) => (
+          <div
+            key={proposal.id}
+            className={`absolute border-2 border-dashed z-10 pointer-events-none ${
+              proposal.accepted
+                ? 'border-emerald-400 bg-emerald-400/15'
+                : 'border-slate-500/60 bg-slate-900/40'
+            }`}
+            style={{
+              left: `${proposal.x}%`,
+              top: `${proposal.y}%`,
+              width: `${proposal.width}%`,
+              height: `${proposal.height}%`,
+            }}
+          >
+            <i className={`absolute -top-2 -right-2 fa-solid ${proposal.accepted ? 'fa-circle-check text-emerald-400' : 'fa-circle-xmark text-slate-500'} text-xs bg-slate-900 rounded-full`}></i>
+          </div>
+        ))}
+
+        {/* Hizalama Kılavuzları */}
+        {guides.x !== undefined && (
+          <div className="absolute top-0 bottom-0 w-px bg-pink-500 z-40 pointer-events-none" style={{ left: `${guides.x}%` }} />
+        )}
+        {guides.y !== undefined && (
+          <div className="absolute left-0 right-0 h-px bg-pink-500 z-40 pointer-events-none" style={{ top: `${guides.y}%` }} />
+        )}
+
+        {/* Çizim veya Seçim Sırasındaki Dikdörtgen */}
+        {currentRect && (
+          <div
+            className={`absolute border-2 border-dashed z-30 pointer-events-none ${
+              dragRef.current?.kind === 'marquee' ? 'border-blue-400 bg-blue-400/10' : 'border-cyan-400 bg-cyan-400/20'
+            }`}
+            style={{
+              left: `${currentRect.x}%`,
+              top: `${currentRect.y}%`,
+              width: `${currentRect.w}%`,
+              height: `${currentRect.h}%`,
+            }}
+          />
+        )}
+      </div>
+    </>
   );
 };
 
@@ -0,0 +1,66 @@
+
+import React from 'react';
+import { TextRegion, SUPPORTED_LANGUAGES } from '../types';
+import { translatedTextOf } from '../services/regionTranslations';
+
+interface LanguageSwitcherProps {
+  languages: string[];
+  activeLang: string;
+  regions: TextRegion[];
+  onSelect: (lang: string) => void;
+  onChange: (languages: string[]) => void;
+}
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ languages, activeLang, regions, onSelect, onChange }) => {
+  const withSource = regions.filter(r => r.originalText.trim());
+  const available = SUPPORTED_LANGUAGES.filter(l => !languages.includes(l.name));
+
+  const remove = (lang: string) => {
+    const translated = withSource.filter(r => translatedTextOf(r, lang).trim()).length;
+    if (translated > 0 && !confirm(`${lang} projeden çıkarılsın mı? ${translated} çeviri kutularda saklanır, dil yeniden eklenince geri gelir.`)) return;
+    onChange(languages.filter(l => l !== lang));
+  };
+
+  return (
+    <div className="bg-slate-950/50 border border-slate-800 rounded-3xl p-4 space-y-3">
+      <p className="text-[10px] font-black text-slate-400 tracking-widest uppercase">
+        <i className="fa-solid fa-globe mr-2 text-purple-400"></i>Hedef Diller
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {languages.map(lang => {
+          const done = withSource.filter(r => translatedTextOf(r, lang).trim()).length;
+          return (
+            <div
+              key={lang}
+              className={`flex items-center rounded-xl text-[10px] font-black ${lang === activeLang ? 'bg-purple-600 text-white' : 'bg-slate-800 text-slate-300'}`}
+            >
+              <button onClick={() => onSelect(lang)} className="pl-3 pr-2 py-1.5">
+                {lang} <span className="opacity-60">{done}/{withSource.length}</span>
+              </button>
+              {languages.length > 1 && (
+                <button onClick={() => remove(lang)} title="Projeden çıkar" className="pr-2 py-1.5 opacity-50 hover:opacity-100">
+                  <i className="fa-solid fa-times"></i>
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={e => e.target.value && onChange([...languages, e.target.value])}
+            className="bg-slate-900 border border-slate-700 rounded-xl px-2 py-1.5 text-[10px] font-black text-slate-400 outline-none"
+          >
+            <option value="">+ Dil ekle</option>
+            {available.map(l => <option key={l.code} value={l.name}>{l.name}</option>)}
+          </select>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-500">
+        Kutular ve temizlik tüm dillerde ortaktır. Çeviri tüm dillere birlikte yapılır; editör ve önizleme seçili dili gösterir.
+      </p>
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,39 @@
+
+import React from 'react';
+
+export interface OcrDebugPreview {
+  regionId: string;
+  url: string;
+  scale: number;
+  inverted: boolean;
+  vertical: boolean;
+  rotation: number;
+}
+
+interface OcrDebugViewProps {
+  preview: OcrDebugPreview;
+  onClose: () => void;
+}
+
+// OCR motoruna gönderilen, ön işlemeden geçmiş kesit
+const OcrDebugView: React.FC<OcrDebugViewProps> = ({ preview, onClose }) => (
+  <div className="bg-slate-950/50 border border-slate-800 rounded-2xl p-3 space-y-2">
+    <div className="flex justify-between items-center">
+      <span className="text-[10px] font-black text-slate-400 tracking-widest uppercase">Motora Giden Görüntü</span>
+      <button onClick={onClose} className="text-slate-500 hover:text-white text-xs">
+        <i className="fa-solid fa-xmark"></i>
+      </button>
+    </div>
+    <div className="bg-[repeating-conic-gradient(#1e293b_0%_25%,#0f172a_0%_50%)] bg-[length:16px_16px] rounded-xl p-2 flex justify-center max-h-64 overflow-auto">
+      <img src={preview.url} alt="" className="max-w-full object-contain" />
+    </div>
+    <div className="flex flex-wrap gap-2 text-[10px] font-bold text-slate-400">
+      <span className="px-2 py-0.5 bg-slate-800 rounded-lg">{preview.scale}x</span>
+      <span className="px-2 py-0.5 bg-slate-800 rounded-lg">{preview.vertical ? 'Dikey' : 'Yatay'}</span>
+      {preview.inverted && <span className="px-2 py-0.5 bg-slate-800 rounded-lg">Ters çevrildi</span>}
+      {preview.rotation !== 0 && <span className="px-2 py-0.5 bg-slate-800 rounded-lg">{preview.rotation > 0 ? '+' : ''}{preview.rotation}° döndürüldü</span>}
+    </div>
+  </div>
+);
+
+export default OcrDebugView;
@@ -0,0 +1,114 @@
+
+import React from 'react';
+import { OcrEngineConfig, OcrEngineId, OcrPreprocessOptions } from '../types';
+import { OCR_ENGINES, getOcrEngine, LOW_CONFIDENCE_THRESHOLD } from '../services/ocrService';
+
+interface OcrEngineSettingsProps {
+  config: OcrEngineConfig;
+  onChange: (config: OcrEngineConfig) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs focus:border-blue-500 outline-none";
+const labelClass = "text-[10px] font-black text-slate-500 tracking-widest uppercase";
+
+const MODE_LABELS = { auto: 'Otomatik', always: 'Her zaman', never: 'Asla' };
+
+const OcrEngineSettings: React.FC<OcrEngineSettingsProps> = ({ config, onChange }) => {
+  const engine = getOcrEngine(config.engineId);
+
+  const changeEngine = (id: OcrEngineId) => {
+    const next = getOcrEngine(id);
+    onChange({ engineId: id, model: next.defaultModel, preprocess: { ...config.preprocess, enabled: next.preprocessByDefault } });
+  };
+
+  const setPreprocess = (updates: Partial<OcrPreprocessOptions>) =>
+    onChange({ ...config, preprocess: { ...config.preprocess, ...updates } });
+
+  const { preprocess } = config;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className={labelClass}>Motor</label>
+          <select
+            value={config.engineId}
+            onChange={e => changeEngine(e.target.value as OcrEngineId)}
+            className={inputClass}
+          >
+            {OCR_ENGINES.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+          </select>
+        </div>
+        {engine.suggestedModels.length > 0 && (
+          <div className="space-y-1">
+            <label className={labelClass}>Model</label>
+            <input
+              list={`ocr-models-${engine.id}`}
+              value={config.model}
+              onChange={e => onChange({ ...config, model: e.target.value })}
+              className={inputClass}
+            />
+            <datalist id={`ocr-models-${engine.id}`}>
+              {engine.suggestedModels.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {engine.requiresApiKey
+          ? 'Çeviri motoru ayarlarındaki Gemini API anahtarı kullanılır. Her kutu ayrı bir istek olarak gönderilir.'
+          : 'Tarayıcıda çalışır; ilk kullanımda dil verisi indirilir.'}
+        {` Güveni %${Math.round(LOW_CONFIDENCE_THRESHOLD * 100)} altındaki okumalar işaretlenir.`}
+      </p>
+
+      <div className="space-y-2 pt-2 border-t border-slate-800">
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={preprocess.enabled} onChange={e => setPreprocess({ enabled: e.target.checked })} />
+          Ön işleme
+        </label>
+        {preprocess.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className={labelClass}>Büyütme</label>
+                <select value={preprocess.upscale} onChange={e => setPreprocess({ upscale: Number(e.target.value) })} className={inputClass}>
+                  <option value={0}>Otomatik</option>
+                  {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}x</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Kenar Payı (px)</label>
+                <input type="number" min={0} max={100} value={preprocess.padding} onChange={e => setPreprocess({ padding: Number(e.target.value) })} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Ters Çevir</label>
+                <select value={preprocess.invert} onChange={e => setPreprocess({ invert: e.target.value as OcrPreprocessOptions['invert'] })} className={inputClass}>
+                  {Object.entries(MODE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={preprocess.binarize} onChange={e => setPreprocess({ binarize: e.target.checked })} />
+              Uyarlamalı eşikleme (siyah-beyaz)
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={preprocess.deskew} onChange={e => setPreprocess({ deskew: e.target.checked })} />
+              Eğiklik düzeltme
+            </label>
+          </>
+        )}
+        <div className="space-y-1">
+          <label className={labelClass}>Dikey Yazı</label>
+          <select value={preprocess.vertical} onChange={e => setPreprocess({ vertical: e.target.value as OcrPreprocessOptions['vertical'] })} className={inputClass}>
+            {Object.entries(MODE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+        <p className="text-[10px] text-slate-500">
+          Dikey yazı Korece, Japonca ve Çincede algılanır ve Tesseract'ın dikey modeliyle okunur. İşlenmiş görüntüyü kutu düzenleyicisinden görebilirsiniz.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default OcrEngineSettings;
@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { PreviewMode } from '../types';
+
+const PREVIEW_MODES: { id: PreviewMode, name: string, icon: string }[] = [
+  { id: 'original', name: 'Orijinal', icon: 'fa-image' },
+  { id: 'translated', name: 'Çeviri', icon: 'fa-language' },
+  { id: 'split', name: 'Karşılaştır', icon: 'fa-table-columns' }
+];
+
+interface PreviewControlsProps {
+  mode: PreviewMode;
+  split: number; // Çevirinin gösterildiği sol kısmın genişliği (%)
+  hideChrome: boolean;
+  lang: string;
+  rendering: boolean;
+  onModeChange: (mode: PreviewMode) => void;
+  onSplitChange: (split: number) => void;
+  onHideChromeChange: (hide: boolean) => void;
+}
+
+const PreviewControls: React.FC<PreviewControlsProps> = ({ mode, split, hideChrome, lang, rendering, onModeChange, onSplitChange, onHideChromeChange }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-3 gap-2">
+      {PREVIEW_MODES.map(m => (
+        <button
+          key={m.id}
+          onClick={() => onModeChange(m.id)}
+          className={`py-2 rounded-xl text-[10px] font-black ${mode === m.id ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+        >
+          <i className={`fa-solid ${m.icon} mr-1`}></i>{m.name}
+        </button>
+      ))}
+    </div>
+    {mode === 'split' && (
+      <div className="space-y-1">
+        <input type="range" min={0} max={100} value={split} onChange={e => onSplitChange(Number(e.target.value))} className="w-full" />
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>← {lang}</span>
+          <span>Orijinal →</span>
+        </div>
+      </div>
+    )}
+    {mode !== 'original' && (
+      <p className="text-[10px] text-slate-500">
+        {rendering
+          ? <><i className="fa-solid fa-circle-notch fa-spin mr-1"></i>Önizleme güncelleniyor...</>
+          : 'Sayfalar dışa aktarmayla aynı temizlik ve dizgiyle çizilir; düzenledikçe yalnızca değişen sayfalar yenilenir.'}
+      </p>
+    )}
+    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+      <input type="checkbox" checked={hideChrome} onChange={e => onHideChromeChange(e.target.checked)} />
+      Kutu çerçevelerini ve numaralarını gizle (okuma görünümü)
+    </label>
+  </div>
+);
+
+export default PreviewControls;
@@ -0,0 +1,80 @@
+
+import React from 'react';
+import { TranslationProviderConfig, TranslationProviderId } from '../types';
+import { TRANSLATION_PROVIDERS, getTranslationProvider } from '../services/translationService';
+
+interface ProviderSettingsProps {
+  config: Omit<TranslationProviderConfig, 'apiKey'>;
+  apiKey: string;
+  onChange: (config: Omit<TranslationProviderConfig, 'apiKey'>) => void;
+  onApiKeyChange: (apiKey: string) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs focus:border-purple-500 outline-none";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, apiKey, onChange, onApiKeyChange }) => {
+  const provider = getTranslationProvider(config.providerId);
+
+  const changeProvider = (id: TranslationProviderId) => {
+    const next = getTranslationProvider(id);
+    onChange({ ...config, providerId: id, model: next.defaultModel });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Sağlayıcı</label>
+          <select
+            value={config.providerId}
+            onChange={e => changeProvider(e.target.value as TranslationProviderId)}
+            className={inputClass}
+          >
+            {TRANSLATION_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Model</label>
+          <input
+            list={`models-${provider.id}`}
+            value={config.model}
+            onChange={e => onChange({ ...config, model: e.target.value })}
+            className={inputClass}
+          />
+          <datalist id={`models-${provider.id}`}>
+            {provider.suggestedModels.map(m => <option key={m} value={m} />)}
+          </datalist>
+        </div>
+      </div>
+
+      {provider.requiresBaseUrl && (
+        <div className="space-y-1">
+          <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">Sunucu Adresi</label>
+          <input
+            value={config.baseUrl || ''}
+            placeholder="http://localhost:8000/v1"
+            onChange={e => onChange({ ...config, baseUrl: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {provider.id !== 'mock' && (
+        <div className="space-y-1">
+          <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">
+            API Anahtarı {!provider.requiresApiKey && '(İsteğe Bağlı)'}
+          </label>
+          <input
+            type="password"
+            value={apiKey}
+            placeholder={provider.id === 'gemini' ? '.env anahtarı kullanılır' : ''}
+            onChange={e => onApiKeyChange(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { ReadingOrderOptions } from '../types';
+import { READING_DIRECTIONS } from '../services/readingOrder';
+
+interface ReadingOrderPanelProps {
+  options: ReadingOrderOptions;
+  showOrder: boolean;
+  disabled: boolean;
+  onChange: (options: ReadingOrderOptions) => void;
+  onShowOrderChange: (show: boolean) => void;
+  onApply: () => void;
+}
+
+const ReadingOrderPanel: React.FC<ReadingOrderPanelProps> = ({ options, showOrder, disabled, onChange, onShowOrderChange, onApply }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-3 gap-2">
+      {READING_DIRECTIONS.map(d => (
+        <button
+          key={d.id}
+          title={d.description}
+          onClick={() => onChange({ ...options, direction: d.id })}
+          className={`py-2 rounded-xl text-[10px] font-black ${options.direction === d.id ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+        >
+          <i className={`fa-solid ${d.icon} mr-1`}></i>{d.name}
+        </button>
+      ))}
+    </div>
+    <p className="text-[10px] text-slate-500">
+      {READING_DIRECTIONS.find(d => d.id === options.direction)!.description}. Paneller sayfadaki boşluklardan bulunur; sıra çeviri bağlamını ve senaryo dosyalarını belirler.
+    </p>
+    <button
+      onClick={onApply}
+      disabled={disabled}
+      className="w-full py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded-xl text-[10px] font-black"
+    >
+      <i className="fa-solid fa-arrow-down-1-9 mr-1"></i> OKUMA SIRASINA GÖRE NUMARALA
+    </button>
+    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+      <input type="checkbox" checked={options.auto} onChange={e => onChange({ ...options, auto: e.target.checked })} />
+      Kutu eklenince / silinince otomatik sırala
+    </label>
+    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+      <input type="checkbox" checked={showOrder} onChange={e => onShowOrderChange(e.target.checked)} />
+      Sırayı görsel üzerinde oklarla göster
+    </label>
+    <p className="text-[10px] text-slate-500">Kutu listesinde satırları sürükleyerek sırayı elle değiştirebilirsiniz; bu, otomatik sıralamayı kapatır.</p>
+  </div>
+);
+
+export default ReadingOrderPanel;
@@ -0,0 +1,121 @@
+
+import React, { useState } from 'react';
+import { RegionComment } from '../types';
+import { createComment, threadComments } from '../services/reviewService';
+
+interface RegionCommentsProps {
+  comments: RegionComment[];
+  reviewerName: string;
+  onReviewerNameChange: (name: string) => void;
+  // label: düzenleme geçmişinde gösterilecek adım adı
+  onChange: (comments: RegionComment[], label: string) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const RegionComments: React.FC<RegionCommentsProps> = ({ comments, reviewerName, onReviewerNameChange, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+
+  const threads = threadComments(comments);
+  const resolvedCount = threads.filter(t => t.comment.resolved).length;
+
+  const add = () => {
+    if (!draft.trim()) return;
+    onChange([...comments, createComment(reviewerName, draft)], 'Yorum eklendi');
+    setDraft('');
+  };
+
+  const reply = (parentId: string) => {
+    if (!replyDraft.trim()) return;
+    onChange([...comments, createComment(reviewerName, replyDraft, parentId)], 'Yoruma yanıt verildi');
+    setReplyTo(null);
+    setReplyDraft('');
+  };
+
+  const toggleResolved = (comment: RegionComment) =>
+    onChange(
+      comments.map(c => c.id === comment.id ? { ...c, resolved: !c.resolved } : c),
+      comment.resolved ? 'Yorum yeniden açıldı' : 'Yorum çözüldü'
+    );
+
+  // Yorum silinince yanıtları da silinir
+  const remove = (id: string) =>
+    onChange(comments.filter(c => c.id !== id && c.parentId !== id), 'Yorum silindi');
+
+  return (
+    <div className="space-y-3">
+      {threads.length === 0 && <p className="text-[10px] text-slate-500">Bu kutuda yorum yok.</p>}
+      {threads.filter(t => showResolved || !t.comment.resolved).map(({ comment, replies }) => (
+        <div key={comment.id} className={`border rounded-xl p-3 space-y-2 ${comment.resolved ? 'border-slate-800 opacity-60' : 'border-amber-500/30 bg-amber-500/5'}`}>
+          {[comment, ...replies].map(c => (
+            <div key={c.id} className={c.parentId ? 'pl-3 border-l border-slate-700' : ''}>
+              <div className="flex items-center gap-2 text-[10px]">
+                <span className="font-black text-slate-300">{c.author}</span>
+                <span className="text-slate-500">{formatTime(c.createdAt)}</span>
+                <button onClick={() => remove(c.id)} title="Sil" className="ml-auto text-slate-600 hover:text-red-400">
+                  <i className="fa-solid fa-trash"></i>
+                </button>
+              </div>
+              <p className="text-xs text-slate-300 whitespace-pre-wrap break-words">{c.text}</p>
+            </div>
+          ))}
+          {replyTo === comment.id ? (
+            <div className="flex gap-2">
+              <input
+                autoFocus
+                value={replyDraft}
+                onChange={e => setReplyDraft(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') reply(comment.id); }}
+                placeholder="Yanıt yazın"
+                className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs outline-none focus:border-blue-500"
+              />
+              <button onClick={() => reply(comment.id)} className="px-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-[10px] font-black">GÖNDER</button>
+              <button onClick={() => setReplyTo(null)} className="px-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black">
+                <i className="fa-solid fa-times"></i>
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-3 text-[10px] font-black">
+              <button onClick={() => { setReplyTo(comment.id); setReplyDraft(''); }} className="text-slate-400 hover:text-white">
+                <i className="fa-solid fa-reply mr-1"></i>YANITLA
+              </button>
+              <button onClick={() => toggleResolved(comment)} className={comment.resolved ? 'text-slate-400 hover:text-white' : 'text-emerald-400 hover:text-emerald-300'}>
+                <i className={`fa-solid ${comment.resolved ? 'fa-rotate-left' : 'fa-check'} mr-1`}></i>{comment.resolved ? 'YENİDEN AÇ' : 'ÇÖZÜLDÜ'}
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {resolvedCount > 0 && (
+        <button onClick={() => setShowResolved(!showResolved)} className="text-[10px] font-black text-slate-500 hover:text-white">
+          {showResolved ? 'ÇÖZÜLENLERİ GİZLE' : `ÇÖZÜLEN ${resolvedCount} YORUMU GÖSTER`}
+        </button>
+      )}
+      <div className="space-y-2">
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="Yorum ekleyin"
+          className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none resize-none min-h-[50px] focus:border-blue-500"
+        />
+        <div className="flex gap-2">
+          <input
+            value={reviewerName}
+            onChange={e => onReviewerNameChange(e.target.value)}
+            placeholder="Adınız"
+            className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs outline-none focus:border-blue-500"
+          />
+          <button onClick={add} disabled={!draft.trim()} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-30 rounded-lg text-[10px] font-black">
+            YORUM EKLE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegionComments;
@@ -0,0 +1,227 @@
+
+import React, { useMemo, useState } from 'react';
+import { CleanMode, RegionType, ReviewStatus, TextRegion } from '../types';
+import { translatedTextOf } from '../services/regionTranslations';
+import { REGION_TYPES, regionTypeOf, regionTypeInfo, regionTypeUpdate } from '../services/regionTypes';
+import { CLEAN_MODES } from '../services/textCleaning';
+import { REVIEW_STATUSES, reviewStatusOf, reviewStatusName, countReviewStatuses, reviewableRegions, openCommentCount } from '../services/reviewService';
+
+export const STATUS_STYLES: Record<ReviewStatus, { badge: string, bar: string }> = {
+  untranslated: { badge: 'bg-slate-800 text-slate-400', bar: 'bg-slate-700' },
+  machine: { badge: 'bg-purple-500/20 text-purple-300', bar: 'bg-purple-500' },
+  edited: { badge: 'bg-blue-500/20 text-blue-300', bar: 'bg-blue-500' },
+  approved: { badge: 'bg-emerald-500/20 text-emerald-300', bar: 'bg-emerald-500' },
+  flagged: { badge: 'bg-red-500/20 text-red-300', bar: 'bg-red-500' }
+};
+
+export const ReviewStatusBadge: React.FC<{ status: ReviewStatus }> = ({ status }) => (
+  <span className={`text-[10px] font-black px-2 py-0.5 rounded-lg whitespace-nowrap ${STATUS_STYLES[status].badge}`}>
+    {reviewStatusName(status)}
+  </span>
+);
+
+type RegionFilter = ReviewStatus | 'all' | 'comments' | 'warnings';
+
+interface RegionListPanelProps {
+  regions: TextRegion[];
+  lang: string;
+  selectedRegionIds: string[];
+  warnings: Record<string, string>;
+  onSelect: (id: string) => void;
+  onSetStatus: (ids: string[], status: ReviewStatus) => void;
+  // Sürüklenen kutu hedef kutunun sırasına taşınır
+  onReorder: (draggedId: string, targetId: string) => void;
+  onSelectMany: (ids: string[]) => void;
+  // label: düzenleme geçmişinde gösterilecek adım adı
+  onUpdateMany: (ids: string[], updates: Partial<TextRegion>, label: string) => void;
+}
+
+const normalize = (text: string) => text.normalize('NFC').toLocaleLowerCase();
+
+const RegionListPanel: React.FC<RegionListPanelProps> = ({ regions, lang, selectedRegionIds, warnings, onSelect, onSetStatus, onReorder, onSelectMany, onUpdateMany }) => {
+  const [filter, setFilter] = useState<RegionFilter>('all');
+  const [typeFilter, setTypeFilter] = useState<RegionType | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const [dragging, setDragging] = useState<{ id: string, overId: string | null } | null>(null);
+
+  const counts = useMemo(() => countReviewStatuses(regions, lang), [regions, lang]);
+  const total = reviewableRegions(regions).length;
+
+  const typeCounts = useMemo(() => {
+    const counts: Partial<Record<RegionType, number>> = {};
+    regions.forEach(r => { counts[regionTypeOf(r)] = (counts[regionTypeOf(r)] || 0) + 1; });
+    return counts;
+  }, [regions]);
+
+  const visible = useMemo(() => {
+    const q = normalize(query.trim());
+    return [...regions]
+      .sort((a, b) => a.order - b.order)
+      .filter(r => typeFilter === 'all' || regionTypeOf(r) === typeFilter)
+      .filter(r => {
+        if (filter === 'comments') return openCommentCount(r) > 0;
+        if (filter === 'warnings') return !!warnings[r.id];
+        return filter === 'all' || (r.originalText.trim() && reviewStatusOf(r, lang) === filter);
+      })
+      .filter(r => !q || [r.originalText, translatedTextOf(r, lang), r.notes || '', String(r.order)].some(text => normalize(text).includes(q)));
+  }, [regions, lang, filter, typeFilter, query, warnings]);
+
+  const visibleIds = visible.map(r => r.id);
+  const listLabel = (count: number, action: string) => `${count} kutu: ${action}`;
+
+  const approvable = visible.filter(r => r.originalText.trim() && ['machine', 'edited'].includes(reviewStatusOf(r, lang)));
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex h-2 rounded-full overflow-hidden bg-slate-800">
+          {total > 0 && REVIEW_STATUSES.map(s => counts[s.id] > 0 && (
+            <div key={s.id} title={`${s.name}: ${counts[s.id]}`} className={STATUS_STYLES[s.id].bar} style={{ width: `${(counts[s.id] / total) * 100}%` }} />
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500">
+          {lang}: {counts.approved}/{total} kutu onaylandı{total > 0 && ` (%${Math.round((counts.approved / total) * 100)})`}
+          {counts.flagged > 0 && <span className="text-red-400"> · {counts.flagged} işaretli</span>}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {([
+          ['all', `Tümü (${regions.length})`],
+          ...REVIEW_STATUSES.map(s => [s.id, `${s.name} (${counts[s.id]})`]),
+          ['comments', 'Açık yorum'],
+          ['warnings', 'Uyarı']
+        ] as [RegionFilter, string][]).map(([id, name]) => (
+          <button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={`px-2 py-1 rounded-lg text-[10px] font-black ${filter === id ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <button
+          onClick={() => setTypeFilter('all')}
+          className={`px-2 py-1 rounded-lg text-[10px] font-black ${typeFilter === 'all' ? 'bg-slate-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+        >
+          Tüm türler
+        </button>
+        {REGION_TYPES.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTypeFilter(t.id)}
+            className={`px-2 py-1 rounded-lg text-[10px] font-black ${typeFilter === t.id ? 'bg-slate-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+          >
+            <i className={`fa-solid ${t.icon} mr-1`}></i>{t.name} ({typeCounts[t.id] || 0})
+          </button>
+        ))}
+      </div>
+
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Metin, çeviri, not veya sıra no ara"
+        className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none focus:border-blue-500"
+      />
+
+      <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+        {visible.length === 0 && <p className="text-[10px] text-slate-500 text-center py-4">Eşleşen kutu yok.</p>}
+        {visible.map(r => {
+          const translated = translatedTextOf(r, lang);
+          const comments = openCommentCount(r);
+          return (
+            <button
+              key={r.id}
+              draggable
+              onClick={() => onSelect(r.id)}
+              onDragStart={e => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragging({ id: r.id, overId: null });
+              }}
+              onDragOver={e => {
+                if (!dragging) return;
+                e.preventDefault();
+                if (dragging.overId !== r.id) setDragging({ ...dragging, overId: r.id });
+              }}
+              onDrop={e => {
+                e.preventDefault();
+                if (dragging && dragging.id !== r.id) onReorder(dragging.id, r.id);
+                setDragging(null);
+              }}
+              onDragEnd={() => setDragging(null)}
+              className={`w-full text-left flex items-start gap-2 px-3 py-2 rounded-xl border transition-colors ${
+                dragging?.overId === r.id && dragging.id !== r.id
+                  ? 'border-pink-400 bg-pink-400/10'
+                  : selectedRegionIds.includes(r.id) ? 'border-blue-500 bg-blue-500/10' : 'border-transparent hover:bg-slate-800/60'
+              } ${dragging?.id === r.id ? 'opacity-40' : ''}`}
+            >
+              <i className="fa-solid fa-grip-vertical text-[10px] text-slate-600 pt-1 cursor-grab"></i>
+              <span className="text-[10px] font-black text-blue-400 w-7 shrink-0 pt-0.5">#{r.order}</span>
+              <i title={regionTypeInfo(regionTypeOf(r)).name} className={`fa-solid ${regionTypeInfo(regionTypeOf(r)).icon} text-[10px] text-slate-500 w-3 pt-1`}></i>
+              <span className="flex-1 min-w-0">
+                <span className="block text-xs text-slate-200 truncate">{translated || <span className="text-slate-500 italic">{r.originalText || '(boş)'}</span>}</span>
+                {translated && <span className="block text-[10px] text-slate-500 truncate">{r.originalText}</span>}
+              </span>
+              <span className="flex flex-col items-end gap-1 shrink-0">
+                {r.originalText.trim() && <ReviewStatusBadge status={reviewStatusOf(r, lang)} />}
+                <span className="flex gap-2 text-[10px]">
+                  {comments > 0 && <span className="text-amber-300"><i className="fa-solid fa-comment mr-1"></i>{comments}</span>}
+                  {warnings[r.id] && <i title={warnings[r.id]} className="fa-solid fa-triangle-exclamation text-amber-400"></i>}
+                </span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {visible.length > 0 && (
+        <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Listedeki {visible.length} kutu</span>
+            <button onClick={() => onSelectMany(visibleIds)} className="text-[10px] font-black text-slate-400 hover:text-white">
+              <i className="fa-solid fa-object-group mr-1"></i>GÖRSELDE SEÇ
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value=""
+              onChange={e => {
+                const type = e.target.value as RegionType;
+                onUpdateMany(visibleIds, regionTypeUpdate(type), listLabel(visible.length, `tür ${regionTypeInfo(type).name}`));
+              }}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] outline-none focus:border-blue-500"
+            >
+              <option value="" disabled>Türü değiştir...</option>
+              {REGION_TYPES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+            <select
+              value=""
+              onChange={e => {
+                const mode = e.target.value as CleanMode;
+                onUpdateMany(visibleIds, { cleanMode: mode }, listLabel(visible.length, `temizleme ${CLEAN_MODES.find(m => m.id === mode)!.name}`));
+              }}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] outline-none focus:border-blue-500"
+            >
+              <option value="" disabled>Temizlemeyi değiştir...</option>
+              {CLEAN_MODES.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {approvable.length > 0 && (
+        <button
+          onClick={() => onSetStatus(approvable.map(r => r.id), 'approved')}
+          className="w-full py-2 bg-emerald-600/20 hover:bg-emerald-600/30 border border-emerald-500/30 rounded-xl text-[10px] font-black text-emerald-200"
+        >
+          <i className="fa-solid fa-check-double mr-1"></i> LİSTEDEKİ {approvable.length} ÇEVİRİYİ ONAYLA
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RegionListPanel;
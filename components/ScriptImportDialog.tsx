@@ -0,0 +1,88 @@
+
+import React from 'react';
+import { ScriptChange, ScriptField, UnmatchedRow } from '../services/scriptExchange';
+
+interface ScriptImportDialogProps {
+  fileName: string;
+  changes: ScriptChange[];
+  unmatched: UnmatchedRow[];
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ScriptField, string> = {
+  originalText: 'Kaynak',
+  translatedText: 'Çeviri',
+  notes: 'Not'
+};
+
+const ScriptImportDialog: React.FC<ScriptImportDialogProps> = ({ fileName, changes, unmatched, onApply, onClose }) => {
+  const regionCount = new Set(changes.map(c => c.regionId)).size;
+  const byOrder = changes.filter(c => c.matchedBy === 'order').length;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-800 rounded-[2rem] p-8 shadow-2xl space-y-4"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-black text-slate-300 uppercase tracking-[0.2em]">
+            <i className="fa-solid fa-file-import mr-2 text-blue-400"></i>Senaryo İçe Aktar
+          </h3>
+          <button onClick={onClose} className="w-8 h-8 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs">
+            <i className="fa-solid fa-times"></i>
+          </button>
+        </div>
+
+        <p className="text-[11px] text-slate-400">
+          <span className="font-bold text-slate-200">{fileName}</span>: {regionCount} kutuda {changes.length} değişiklik
+          {byOrder > 0 && ` (${byOrder} tanesi sıra numarasıyla eşleşti)`}
+          {unmatched.length > 0 && <>, <span className="text-amber-400">{unmatched.length} satır eşleşmedi</span></>}.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+          {changes.length === 0 && (
+            <p className="text-[11px] text-slate-500 text-center py-6">Dosyada kutulardan farklı bir değer yok.</p>
+          )}
+          {changes.map(c => (
+            <div key={`${c.regionId}:${c.field}`} className="bg-slate-950/50 border border-slate-800 rounded-xl p-3 space-y-1">
+              <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 tracking-widest uppercase">
+                <span className="text-blue-400">#{c.order}</span>
+                <span>{FIELD_LABELS[c.field]}</span>
+                {c.matchedBy === 'order' && <span className="text-amber-400 normal-case tracking-normal">sıra ile eşleşti</span>}
+              </div>
+              <p className="text-xs text-red-300/80 line-through whitespace-pre-wrap break-words">{c.before || '(boş)'}</p>
+              <p className="text-xs text-emerald-300 whitespace-pre-wrap break-words">{c.after || '(boş)'}</p>
+            </div>
+          ))}
+
+          {unmatched.length > 0 && (
+            <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-3 space-y-1">
+              <p className="text-[10px] font-black text-amber-400 tracking-widest uppercase">Eşleşmeyen Satırlar</p>
+              {unmatched.map(u => (
+                <p key={u.line} className="text-[11px] text-amber-200">
+                  Satır {u.line}{u.row.id && ` (id ${u.row.id})`}{u.row.order !== undefined && ` (sıra ${u.row.order})`}: {u.reason}
+                  {u.row.translatedText && <span className="text-slate-400"> — "{u.row.translatedText}"</span>}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-xl text-[10px] font-black">İPTAL</button>
+          <button
+            onClick={onApply}
+            disabled={changes.length === 0}
+            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 rounded-xl text-[10px] font-black"
+          >
+            {changes.length} DEĞİŞİKLİĞİ UYGULA
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptImportDialog;
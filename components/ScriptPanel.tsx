@@ -0,0 +1,59 @@
+
+import React from 'react';
+import { TextRegion } from '../types';
+import { SCRIPT_FORMATS, ScriptFormat, ScriptRow, exportScript, parseScriptFile } from '../services/scriptExchange';
+import { downloadText } from '../services/fileUtils';
+
+interface ScriptPanelProps {
+  regions: TextRegion[];
+  sourceLang: string;
+  targetLang: string;
+  onImport: (rows: ScriptRow[], fileName: string) => void;
+}
+
+const ScriptPanel: React.FC<ScriptPanelProps> = ({ regions, sourceLang, targetLang, onImport }) => {
+  const download = (format: ScriptFormat) => {
+    const { extension, mime } = SCRIPT_FORMATS.find(f => f.id === format)!;
+    const suffix = format === 'xliff20' ? '_xliff2' : '';
+    downloadText(exportScript(regions, format, sourceLang, targetLang), `script_${targetLang}${suffix}.${extension}`, mime);
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseScriptFile(file.name, await file.text()), file.name);
+    } catch (err) {
+      console.error("Senaryo içe aktarma hatası:", err);
+      alert(`Senaryo dosyası okunamadı: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-slate-500">
+        Kutuların id, sıra, kaynak metin, çeviri ve notlarını tablolama programı veya CAT aracı için dışa aktarın.
+        Düzenlenen dosya içe aktarılırken önce id, bulunamazsa sıra numarasıyla eşleştirilir ve değişiklikler onaya sunulur.
+      </p>
+      <div className="grid grid-cols-4 gap-2">
+        {SCRIPT_FORMATS.map(f => (
+          <button
+            key={f.id}
+            onClick={() => download(f.id)}
+            disabled={regions.length === 0}
+            className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black disabled:opacity-30"
+          >
+            {f.name}
+          </button>
+        ))}
+      </div>
+      <input type="file" accept=".csv,.json,.xlf,.xliff,.xml" onChange={importFile} className="hidden" id="script-import" />
+      <label htmlFor="script-import" className="block text-center py-2 bg-blue-600/20 hover:bg-blue-600/30 border border-blue-500/30 rounded-lg text-[10px] font-black cursor-pointer">
+        <i className="fa-solid fa-file-import mr-1"></i> DÜZENLENMİŞ DOSYAYI İÇE AKTAR
+      </label>
+    </div>
+  );
+};
+
+export default ScriptPanel;
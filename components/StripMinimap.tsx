@@ -0,0 +1,87 @@
+
+import React, { useRef } from 'react';
+import { StripTile, TextRegion } from '../types';
+import { reviewStatusOf } from '../services/reviewService';
+import { STATUS_STYLES } from './RegionListPanel';
+
+interface StripMinimapProps {
+  tiles: StripTile[];
+  stripWidth: number;
+  stripHeight: number;
+  regions: TextRegion[];
+  lang: string;
+  selectedRegionIds: string[];
+  // Görünen alanın şerit yüksekliğine oranla başlangıcı ve yüksekliği (0-1)
+  view: { top: number, height: number };
+  // fraction: ortalanacak noktanın şerit yüksekliğine oranı
+  onNavigate: (fraction: number) => void;
+}
+
+// Metni okunmamış kutular sarı, çevrilmemişler açık gri (liste çubuğundaki koyu gri burada seçilmez)
+const regionColor = (region: TextRegion, lang: string) => {
+  if (!region.originalText.trim()) return 'bg-yellow-400';
+  const status = reviewStatusOf(region, lang);
+  return status === 'untranslated' ? 'bg-slate-300' : STATUS_STYLES[status].bar;
+};
+
+// Şerit en boy oranı korunmadan dikeyde sığdırılır; amaç konum ve durum göstermektir
+const StripMinimap: React.FC<StripMinimapProps> = ({ tiles, stripWidth, stripHeight, regions, lang, selectedRegionIds, view, onNavigate }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const navigateTo = (clientY: number) => {
+    const rect = ref.current!.getBoundingClientRect();
+    onNavigate(Math.max(0, Math.min(1, (clientY - rect.top) / rect.height)));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    navigateTo(e.clientY);
+    const move = (ev: MouseEvent) => navigateTo(ev.clientY);
+    const up = () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', up);
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  return (
+    <div
+      ref={ref}
+      onMouseDown={handleMouseDown}
+      className="relative w-14 h-full shrink-0 bg-black rounded-xl overflow-hidden border border-slate-800 cursor-pointer select-none"
+      title="Mini harita: tıklayarak veya sürükleyerek gezin"
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.pageId}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute left-0 opacity-40 pointer-events-none"
+          style={{
+            top: `${(tile.y / stripHeight) * 100}%`,
+            width: `${(tile.width / stripWidth) * 100}%`,
+            height: `${(tile.height / stripHeight) * 100}%`
+          }}
+        />
+      ))}
+      {regions.map(r => (
+        <div
+          key={r.id}
+          className={`absolute pointer-events-none ${
+            selectedRegionIds.includes(r.id) ? 'bg-white ring-1 ring-blue-500' : regionColor(r, lang)
+          }`}
+          style={{ left: `${r.x}%`, width: `${r.width}%`, top: `${r.y}%`, height: `${r.height}%`, minHeight: 2 }}
+        />
+      ))}
+      <div
+        className="absolute inset-x-0 border-2 border-blue-400 bg-blue-400/10 rounded pointer-events-none"
+        style={{ top: `${view.top * 100}%`, height: `${view.height * 100}%`, minHeight: 4 }}
+      />
+    </div>
+  );
+};
+
+export default StripMinimap;
@@ -0,0 +1,180 @@
+
+import React from 'react';
+import { TextRegion, TextStyle, StylePreset, CustomFont, TextAlign } from '../types';
+import { BUILT_IN_PRESETS, SYSTEM_FONTS, resolveTextStyle, regionPresetId } from '../services/textRenderer';
+
+interface StyleControlsProps {
+  region: TextRegion;
+  presets: StylePreset[];
+  customFonts: CustomFont[];
+  onUpdateRegion: (updates: Partial<TextRegion>) => void;
+  onSavePreset: (name: string, style: Partial<TextStyle>) => void;
+  onDeletePreset: (id: string) => void;
+  onUploadFont: (file: File) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none focus:border-blue-500";
+const labelClass = "text-[10px] font-black text-slate-500 tracking-widest uppercase";
+
+const StyleControls: React.FC<StyleControlsProps> = ({
+  region,
+  presets,
+  customFonts,
+  onUpdateRegion,
+  onSavePreset,
+  onDeletePreset,
+  onUploadFont
+}) => {
+  const style = resolveTextStyle(region, presets);
+  const activePreset = [...BUILT_IN_PRESETS, ...presets].find(p => p.id === regionPresetId(region));
+
+  // Tek bir alan değiştiğinde sadece o alan bölgeye özel geçersiz kılma olarak kaydedilir
+  const setStyle = (updates: Partial<TextStyle>) =>
+    onUpdateRegion({ style: { ...region.style, ...updates } });
+
+  const savePreset = () => {
+    const name = prompt("Ön ayar adı:");
+    if (name?.trim()) onSavePreset(name.trim(), style);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className={labelClass}>Ön Ayar</label>
+        <div className="flex gap-2">
+          <select
+            value={regionPresetId(region)}
+            onChange={e => onUpdateRegion({ presetId: e.target.value, style: undefined })}
+            className={inputClass}
+          >
+            {[...BUILT_IN_PRESETS, ...presets].map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={savePreset} title="Mevcut stili ön ayar olarak kaydet" className="px-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-xs">
+            <i className="fa-solid fa-floppy-disk"></i>
+          </button>
+          {activePreset && !activePreset.builtIn && (
+            <button onClick={() => onDeletePreset(activePreset.id)} title="Ön ayarı sil" className="px-3 bg-slate-800 hover:bg-red-600 rounded-xl text-xs">
+              <i className="fa-solid fa-trash"></i>
+            </button>
+          )}
+        </div>
+        {region.style && Object.keys(region.style).length > 0 && (
+          <button onClick={() => onUpdateRegion({ style: undefined })} className="text-[10px] font-black text-slate-500 hover:text-white">
+            <i className="fa-solid fa-rotate-left mr-1"></i> ÖN AYARA DÖN
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] gap-2 items-end">
+        <div className="space-y-1">
+          <label className={labelClass}>Font</label>
+          <select value={style.fontFamily} onChange={e => setStyle({ fontFamily: e.target.value })} className={inputClass}>
+            {SYSTEM_FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+            {customFonts.map(f => <option key={f.family} value={f.family}>{f.family} (Yüklenen)</option>)}
+          </select>
+        </div>
+        <input
+          type="file"
+          accept=".ttf,.otf,.woff,.woff2"
+          id={`font-upload-${region.id}`}
+          className="hidden"
+          onChange={e => { const f = e.target.files?.[0]; e.target.value = ''; if (f) onUploadFont(f); }}
+        />
+        <label htmlFor={`font-upload-${region.id}`} title="Font yükle" className="h-[34px] px-3 flex items-center bg-slate-800 hover:bg-slate-700 rounded-xl text-xs cursor-pointer">
+          <i className="fa-solid fa-font"></i>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Boyut</label>
+          <input
+            type="number"
+            min={6}
+            disabled={style.fontSize === 'auto'}
+            value={style.fontSize === 'auto' ? '' : style.fontSize}
+            placeholder="Otomatik"
+            onChange={e => setStyle({ fontSize: Math.max(6, Number(e.target.value)) })}
+            className={`${inputClass} disabled:opacity-40`}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 pt-5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={style.fontSize === 'auto'}
+            onChange={e => setStyle({ fontSize: e.target.checked ? 'auto' : 24 })}
+          />
+          OTO
+        </label>
+        <div className="flex gap-1 pt-4">
+          <button onClick={() => setStyle({ bold: !style.bold })} className={`flex-1 py-2 rounded-lg text-xs ${style.bold ? 'bg-blue-600' : 'bg-slate-800'}`}><i className="fa-solid fa-bold"></i></button>
+          <button onClick={() => setStyle({ italic: !style.italic })} className={`flex-1 py-2 rounded-lg text-xs ${style.italic ? 'bg-blue-600' : 'bg-slate-800'}`}><i className="fa-solid fa-italic"></i></button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Renk</label>
+          <input type="color" value={style.fill} onChange={e => setStyle({ fill: e.target.value })} className="w-full h-[34px] bg-slate-950 border border-slate-800 rounded-xl" />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Kontur</label>
+          <input type="number" min={0} max={20} value={style.strokeWidth} onChange={e => setStyle({ strokeWidth: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>K. Rengi</label>
+          <input type="color" value={style.strokeColor} onChange={e => setStyle({ strokeColor: e.target.value })} className="w-full h-[34px] bg-slate-950 border border-slate-800 rounded-xl" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Hizalama</label>
+          <div className="flex gap-1">
+            {(['left', 'center', 'right'] as TextAlign[]).map(a => (
+              <button
+                key={a}
+                onClick={() => setStyle({ align: a })}
+                disabled={style.vertical}
+                className={`flex-1 py-2 rounded-lg text-xs disabled:opacity-30 ${style.align === a ? 'bg-blue-600' : 'bg-slate-800'}`}
+              >
+                <i className={`fa-solid fa-align-${a}`}></i>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Satır Aralığı</label>
+          <input type="number" min={0.6} max={3} step={0.05} value={style.lineHeight} onChange={e => setStyle({ lineHeight: Number(e.target.value) })} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Yerleşim Şekli</label>
+          <select value={style.fitShape} onChange={e => setStyle({ fitShape: e.target.value as TextStyle['fitShape'] })} className={inputClass}>
+            <option value="rect">Dikdörtgen</option>
+            <option value="ellipse">Elips (Balon)</option>
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 pt-5 cursor-pointer">
+          <input type="checkbox" checked={style.hyphenate} onChange={e => setStyle({ hyphenate: e.target.checked })} />
+          HECELE (TİRE)
+        </label>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] gap-3 items-center">
+        <div className="space-y-1">
+          <label className={labelClass}>Döndürme ({style.rotation}°)</label>
+          <input type="range" min={-45} max={45} value={style.rotation} onChange={e => setStyle({ rotation: Number(e.target.value) })} className="w-full" />
+        </div>
+        <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 pt-4 cursor-pointer">
+          <input type="checkbox" checked={style.vertical} onChange={e => setStyle({ vertical: e.target.checked })} />
+          DİKEY
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default StyleControls;
@@ -0,0 +1,93 @@
+
+import React from 'react';
+import { SfxHandling, TranslationContext, TranslationRunOptions } from '../types';
+
+interface TranslationContextPanelProps {
+  context: TranslationContext;
+  runOptions: TranslationRunOptions;
+  sfxHandling: SfxHandling;
+  supportsImages: boolean;
+  onChange: (context: TranslationContext) => void;
+  onRunOptionsChange: (options: TranslationRunOptions) => void;
+  onSfxHandlingChange: (handling: SfxHandling) => void;
+  onCaptureChapterEnding: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none focus:border-blue-500 resize-none";
+const labelClass = "text-[10px] font-black text-slate-500 tracking-widest uppercase";
+
+const TranslationContextPanel: React.FC<TranslationContextPanelProps> = ({
+  context,
+  runOptions,
+  sfxHandling,
+  supportsImages,
+  onChange,
+  onRunOptionsChange,
+  onSfxHandlingChange,
+  onCaptureChapterEnding
+}) => {
+  const toggles: { key: keyof TranslationRunOptions, label: string, disabled?: boolean }[] = [
+    { key: 'includeOrder', label: 'Okuma sırası ve komşu satırlar' },
+    { key: 'includeSeriesInfo', label: 'Seri özeti ve karakterler' },
+    { key: 'includePreviousChapter', label: 'Önceki bölümün son satırları' },
+    { key: 'includeImages', label: 'Panel görselleri (çok kipli)', disabled: !supportsImages }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className={labelClass}>Bu Çalıştırmada Gönder</label>
+        {toggles.map(t => (
+          <label key={t.key} className={`flex items-center gap-2 text-xs ${t.disabled ? 'text-slate-600' : 'text-slate-300 cursor-pointer'}`}>
+            <input
+              type="checkbox"
+              checked={runOptions[t.key] && !t.disabled}
+              disabled={t.disabled}
+              onChange={e => onRunOptionsChange({ ...runOptions, [t.key]: e.target.checked })}
+            />
+            {t.label}
+          </label>
+        ))}
+        <p className="text-[10px] text-slate-500">
+          Ek bağlam her istekte tekrar gönderilir ve maliyeti artırır; görseller en pahalısıdır.
+          {!supportsImages && ' Seçili sağlayıcı görsel girdiyi desteklemiyor.'}
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <label className={labelClass}>Ses Efektleri</label>
+        <select
+          value={sfxHandling}
+          onChange={e => onSfxHandlingChange(e.target.value as SfxHandling)}
+          className={inputClass}
+        >
+          <option value="translate">Yansıma sözcükle çevir</option>
+          <option value="subtitle">Çevirme, küçük açıklama ekle</option>
+        </select>
+        {sfxHandling === 'subtitle' && (
+          <p className="text-[10px] text-slate-500">Ses efekti kutuları temizlenmez; orijinal efekt görünür kalır ve çevirisi kutunun altına küçük bir açıklama olarak yazılır.</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <label className={labelClass}>Seri Özeti</label>
+        <textarea rows={3} value={context.synopsis} onChange={e => onChange({ ...context, synopsis: e.target.value })} className={inputClass} placeholder="Hikâyenin kısa özeti, ton, dönem..." />
+      </div>
+      <div className="space-y-1">
+        <label className={labelClass}>Karakterler</label>
+        <textarea rows={3} value={context.characterSheet} onChange={e => onChange({ ...context, characterSheet: e.target.value })} className={inputClass} placeholder="Ad — cinsiyet, konuşma tarzı, diğer karakterlere hitabı..." />
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label className={labelClass}>Önceki Bölümün Son Satırları</label>
+          <button onClick={onCaptureChapterEnding} title="Bu bölümün son satırlarını bir sonraki bölüm için sakla" className="text-[10px] font-black text-slate-500 hover:text-white">
+            <i className="fa-solid fa-arrow-down-short-wide mr-1"></i>BU BÖLÜMDEN AL
+          </button>
+        </div>
+        <textarea rows={4} value={context.previousChapter} onChange={e => onChange({ ...context, previousChapter: e.target.value })} className={inputClass} />
+      </div>
+    </div>
+  );
+};
+
+export default TranslationContextPanel;
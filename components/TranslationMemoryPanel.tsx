@@ -0,0 +1,106 @@
+
+import React, { useEffect, useState } from 'react';
+import { TranslationMemoryOptions } from '../types';
+import { countMemory, clearMemory, loadMemory, memoryToTmx, importTmx } from '../services/translationMemory';
+import { downloadText } from '../services/fileUtils';
+
+interface TranslationMemoryPanelProps {
+  options: TranslationMemoryOptions;
+  sourceLang: string;
+  targetLang: string;
+  // Bellek dışarıdan değiştiğinde (çeviri, düzenleme) sayacın yenilenmesi için artırılır
+  revision: number;
+  onChange: (options: TranslationMemoryOptions) => void;
+}
+
+const TranslationMemoryPanel: React.FC<TranslationMemoryPanelProps> = ({ options, sourceLang, targetLang, revision, onChange }) => {
+  const [count, setCount] = useState<number | null>(null);
+  const [localRevision, setLocalRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    countMemory(sourceLang, targetLang)
+      .then(n => { if (!cancelled) setCount(n); })
+      .catch(err => {
+        console.error("Çeviri belleği okunamadı:", err);
+        if (!cancelled) setCount(null);
+      });
+    return () => { cancelled = true; };
+  }, [sourceLang, targetLang, revision, localRevision]);
+
+  const exportTmx = async () => {
+    try {
+      const entries = await loadMemory(sourceLang, targetLang);
+      downloadText(memoryToTmx(entries, sourceLang), `memory_${sourceLang}_${targetLang}.tmx`, 'application/x-tmx+xml');
+    } catch (err) {
+      console.error("TMX dışa aktarma hatası:", err);
+      alert("Çeviri belleği okunamadı.");
+    }
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importTmx(await file.text());
+      setLocalRevision(r => r + 1);
+      alert(`${imported} çeviri birimi belleğe aktarıldı.`);
+    } catch (err) {
+      console.error("TMX içe aktarma hatası:", err);
+      alert("TMX dosyası okunamadı.");
+    }
+  };
+
+  const clear = async () => {
+    if (!confirm(`${sourceLang} → ${targetLang} belleğindeki tüm kayıtlar silinsin mi?`)) return;
+    try {
+      await clearMemory(sourceLang, targetLang);
+      setLocalRevision(r => r + 1);
+    } catch (err) {
+      console.error("Çeviri belleği silinemedi:", err);
+      alert("Çeviri belleği silinemedi.");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+        <input type="checkbox" checked={options.enabled} onChange={e => onChange({ ...options, enabled: e.target.checked })} />
+        Çeviriden önce bellekten doldur
+      </label>
+      <div className="space-y-1">
+        <label className="text-[10px] font-black text-slate-500 tracking-widest uppercase">
+          Bulanık Eşleşme Eşiği: {options.fuzzyThreshold >= 1 ? 'yalnızca birebir' : `%${Math.round(options.fuzzyThreshold * 100)}`}
+        </label>
+        <input
+          type="range"
+          min={0.7}
+          max={1}
+          step={0.01}
+          value={options.fuzzyThreshold}
+          onChange={e => onChange({ ...options, fuzzyThreshold: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {count === null ? 'Bellek okunamadı.' : `${sourceLang} → ${targetLang}: ${count} kayıt.`} Bellekten gelen kutular işaretlenir ve modele gönderilmez;
+        düzelttiğiniz çeviriler belleğe geri yazılır.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <input type="file" accept=".tmx,.xml" onChange={importFile} className="hidden" id="memory-import" />
+        <label htmlFor="memory-import" className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black cursor-pointer">
+          TMX İÇE AKTAR
+        </label>
+        <button onClick={exportTmx} disabled={!count} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black disabled:opacity-30">
+          TMX DIŞA AKTAR
+        </button>
+        <button onClick={clear} disabled={!count} className="px-3 py-1.5 bg-red-600/20 hover:bg-red-600/30 rounded-lg text-[10px] font-black text-red-300 disabled:opacity-30">
+          TEMİZLE
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationMemoryPanel;
@@ -0,0 +1,286 @@
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { StripTile, TextRegion } from '../types';
+import { isTypingTarget } from './ImageCanvas';
+import StripMinimap from './StripMinimap';
+
+interface ZoomViewportProps {
+  tiles: StripTile[];
+  stripWidth: number;
+  stripHeight: number;
+  regions: TextRegion[];
+  lang: string;
+  selectedRegionIds: string[];
+  untranslatedCount: number;
+  onJumpToUntranslated: (direction: 1 | -1) => void;
+  children: React.ReactNode;
+}
+
+// Yakınlaştırma 1'de şerit kabın genişliğine (en fazla max-w-3xl) sığar
+const FIT_MAX_WIDTH = 768;
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// Gerçek piksel boyutuna göre hazır ölçekler
+const ACTUAL_SIZE_PRESETS = [0.5, 1, 2];
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * Şeridi yakınlaştırılabilir bir kaydırma alanında gösterir. Kutular yüzde koordinatlarıyla
+ * tutulduğundan yakınlaştırma yalnızca içeriğin genişliğini değiştirir; çizim ve taşıma her
+ * ölçekte doğru kalır. Ctrl+tekerlek / iki parmak yakınlaştırır, Boşluk+sürükle kaydırır.
+ */
+const ZoomViewport: React.FC<ZoomViewportProps> = ({
+  tiles,
+  stripWidth,
+  stripHeight,
+  regions,
+  lang,
+  selectedRegionIds,
+  untranslatedCount,
+  onJumpToUntranslated,
+  children
+}) => {
+  const [zoom, setZoom] = useState(1);
+  const [view, setView] = useState({ top: 0, height: 1, scale: 1 });
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Olay dinleyicileri yeniden bağlanmadan en güncel değerleri okusun diye ref'te de tutulur
+  const zoomRef = useRef(zoom);
+  const spaceRef = useRef(spaceHeld);
+  const pointerOverRef = useRef(false);
+  // Yakınlaştırmadan sonra imlecin altındaki nokta yerinde kalsın diye içerikteki oranı saklanır
+  const anchorRef = useRef<{ clientX: number, clientY: number, fx: number, fy: number } | null>(null);
+
+  const updateView = () => {
+    const scroll = scrollRef.current, content = contentRef.current;
+    if (!scroll || !content) return;
+    const s = scroll.getBoundingClientRect();
+    const c = content.getBoundingClientRect();
+    setView({
+      top: Math.max(0, (s.top - c.top) / c.height),
+      height: Math.min(1, s.height / c.height),
+      scale: c.width / stripWidth
+    });
+  };
+
+  const zoomTo = (next: number, clientX?: number, clientY?: number) => {
+    const scroll = scrollRef.current, content = contentRef.current;
+    if (!scroll || !content) return;
+    const s = scroll.getBoundingClientRect();
+    const c = content.getBoundingClientRect();
+    const x = clientX ?? s.left + s.width / 2;
+    const y = clientY ?? s.top + s.height / 2;
+    anchorRef.current = { clientX: x, clientY: y, fx: (x - c.left) / c.width, fy: (y - c.top) / c.height };
+    zoomRef.current = clampZoom(next);
+    setZoom(zoomRef.current);
+  };
+
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    const scroll = scrollRef.current, content = contentRef.current;
+    anchorRef.current = null;
+    if (anchor && scroll && content) {
+      const c = content.getBoundingClientRect();
+      scroll.scrollLeft += c.left + anchor.fx * c.width - anchor.clientX;
+      scroll.scrollTop += c.top + anchor.fy * c.height - anchor.clientY;
+    }
+    updateView();
+  }, [zoom, stripWidth, stripHeight]);
+
+  useEffect(() => {
+    window.addEventListener('resize', updateView);
+    return () => window.removeEventListener('resize', updateView);
+  }, [stripWidth]);
+
+  // Tarayıcının sayfa yakınlaştırmasını engellemek için dinleyiciler pasif olmamalıdır
+  useEffect(() => {
+    const scroll = scrollRef.current;
+    if (!scroll) return;
+    let pinch: { distance: number, zoom: number } | null = null;
+    const touchDistance = (e: TouchEvent) =>
+      Math.hypot(e.touches[0].clientX - e.touches[1].clientX, e.touches[0].clientY - e.touches[1].clientY);
+
+    // Dokunmatik yüzeylerdeki iki parmak hareketi de Ctrl+tekerlek olarak gelir
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomTo(zoomRef.current * Math.exp(-e.deltaY * 0.002), e.clientX, e.clientY);
+    };
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) pinch = { distance: touchDistance(e), zoom: zoomRef.current };
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      zoomTo(
+        pinch.zoom * (touchDistance(e) / pinch.distance),
+        (e.touches[0].clientX + e.touches[1].clientX) / 2,
+        (e.touches[0].clientY + e.touches[1].clientY) / 2
+      );
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch = null;
+    };
+
+    scroll.addEventListener('wheel', handleWheel, { passive: false });
+    scroll.addEventListener('touchstart', handleTouchStart, { passive: true });
+    scroll.addEventListener('touchmove', handleTouchMove, { passive: false });
+    scroll.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      scroll.removeEventListener('wheel', handleWheel);
+      scroll.removeEventListener('touchstart', handleTouchStart);
+      scroll.removeEventListener('touchmove', handleTouchMove);
+      scroll.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, []);
+
+  // Boşluk basılıyken sürüklemek kutu çizmek yerine görünümü kaydırır
+  useEffect(() => {
+    const setSpace = (held: boolean) => {
+      spaceRef.current = held;
+      setSpaceHeld(held);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      // Boşluk yalnızca imleç şeridin üzerindeyken ya da odak görünümün kendisindeyken alınır;
+      // aksi halde sayfa kaydırma ve odaktaki düğme/onay kutusu Boşluk'u olağan şekilde kullanır
+      if (!pointerOverRef.current && e.target !== scrollRef.current) return;
+      e.preventDefault();
+      if (!e.repeat) setSpace(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || !spaceRef.current) return;
+      e.preventDefault();
+      setSpace(false);
+    };
+    const handleBlur = () => setSpace(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Orta tuşla sürüklemek de her zaman kaydırır; olay kutu çizimine ulaşmadan yakalanır
+  const handleMouseDownCapture = (e: React.MouseEvent) => {
+    const scroll = scrollRef.current;
+    if (!scroll || !(e.button === 1 || (e.button === 0 && spaceRef.current))) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const start = { x: e.clientX, y: e.clientY, left: scroll.scrollLeft, top: scroll.scrollTop };
+    const move = (ev: MouseEvent) => {
+      scroll.scrollLeft = start.left - (ev.clientX - start.x);
+      scroll.scrollTop = start.top - (ev.clientY - start.y);
+    };
+    const up = () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', up);
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  const navigate = (fraction: number) => {
+    const scroll = scrollRef.current, content = contentRef.current;
+    if (!scroll || !content) return;
+    const s = scroll.getBoundingClientRect();
+    const c = content.getBoundingClientRect();
+    scroll.scrollTop += c.top + fraction * c.height - (s.top + s.height / 2);
+  };
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2 bg-slate-900/60 border border-slate-800 rounded-2xl p-2">
+        <button
+          onClick={() => zoomTo(zoomRef.current / ZOOM_STEP)}
+          title="Uzaklaştır (Ctrl+tekerlek)"
+          className="w-8 h-8 flex items-center justify-center bg-slate-800 hover:bg-slate-700 rounded-lg text-xs"
+        >
+          <i className="fa-solid fa-magnifying-glass-minus"></i>
+        </button>
+        <span className="w-14 text-center text-[10px] font-black text-slate-300">%{Math.round(view.scale * 100)}</span>
+        <button
+          onClick={() => zoomTo(zoomRef.current * ZOOM_STEP)}
+          title="Yakınlaştır (Ctrl+tekerlek)"
+          className="w-8 h-8 flex items-center justify-center bg-slate-800 hover:bg-slate-700 rounded-lg text-xs"
+        >
+          <i className="fa-solid fa-magnifying-glass-plus"></i>
+        </button>
+        <button
+          onClick={() => zoomTo(1)}
+          className={`px-3 h-8 rounded-lg text-[10px] font-black ${zoom === 1 ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+        >
+          SIĞDIR
+        </button>
+        {ACTUAL_SIZE_PRESETS.map(preset => (
+          <button
+            key={preset}
+            onClick={() => zoomTo(zoomRef.current * preset / view.scale)}
+            className="px-3 h-8 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black"
+          >
+            %{preset * 100}
+          </button>
+        ))}
+        <span className="hidden xl:inline text-[10px] text-slate-500 px-2">Boşluk+sürükle: kaydır</span>
+        <div className="ml-auto flex gap-1">
+          <button
+            onClick={() => onJumpToUntranslated(-1)}
+            disabled={untranslatedCount === 0}
+            title="Önceki çevrilmemiş kutu (Shift+N)"
+            className="w-8 h-8 flex items-center justify-center bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded-lg text-xs"
+          >
+            <i className="fa-solid fa-chevron-up"></i>
+          </button>
+          <button
+            onClick={() => onJumpToUntranslated(1)}
+            disabled={untranslatedCount === 0}
+            title="Sıradaki çevrilmemiş kutu (N)"
+            className="px-3 h-8 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded-lg text-[10px] font-black"
+          >
+            ÇEVRİLMEMİŞ ({untranslatedCount}) <i className="fa-solid fa-chevron-down ml-1"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-3 h-[calc(100vh-260px)] min-h-[320px]">
+        <div
+          ref={scrollRef}
+          onScroll={updateView}
+          onMouseDownCapture={handleMouseDownCapture}
+          onMouseEnter={() => { pointerOverRef.current = true; }}
+          onMouseLeave={() => { pointerOverRef.current = false; }}
+          tabIndex={-1}
+          className={`relative flex-1 bg-slate-900/30 rounded-[2.5rem] p-6 border border-slate-800 overflow-auto shadow-2xl custom-scrollbar outline-none ${spaceHeld ? 'cursor-grab' : ''}`}
+        >
+          <div
+            ref={contentRef}
+            className="relative mx-auto"
+            style={{ width: `${zoom * 100}%`, maxWidth: FIT_MAX_WIDTH * zoom }}
+          >
+            {children}
+            {/* Kaydırma modunda imleç ve tıklamalar kutulara ulaşmaz */}
+            {spaceHeld && <div className="absolute inset-0 z-50 cursor-grab" />}
+          </div>
+        </div>
+        <StripMinimap
+          tiles={tiles}
+          stripWidth={stripWidth}
+          stripHeight={stripHeight}
+          regions={regions}
+          lang={lang}
+          selectedRegionIds={selectedRegionIds}
+          view={view}
+          onNavigate={navigate}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ZoomViewport;
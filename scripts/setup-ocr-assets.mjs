@@ -0,0 +1,47 @@
+// Tesseract işçisini, WASM çekirdeğini ve dil verilerini public/tesseract altına koyar.
+// Uygulama bu dosyalar varsa CDN'e hiç gitmez; OCR tamamen çevrimdışı çalışır.
+// Kullanım: npm run setup:ocr  (dil verisi için bir kez internet gerekir). `npm run build` bunu
+// önce kendiliğinden çalıştırır; dosyalar hazırlanamazsa derleme durur, çevrimiçi bir paket çıkmaz.
+import { copyFile, mkdir, writeFile, access } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const target = path.join(root, 'public', 'tesseract');
+
+// ocrService'teki dil tablosuyla aynı olmalı (dikey modeller dahil)
+const LANGS = ['kor', 'kor_vert', 'eng', 'jpn', 'jpn_vert', 'chi_sim', 'chi_sim_vert', 'tur', 'fra', 'deu', 'spa'];
+// tesseract.js 5'in varsayılan olarak indirdiği LSTM modelleri
+const LANG_URL = lang => `https://cdn.jsdelivr.net/npm/@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`;
+
+const exists = file => access(file).then(() => true, () => false);
+
+const copyAssets = async () => {
+  const workerDir = path.dirname(require.resolve('tesseract.js/dist/worker.min.js'));
+  const coreDir = path.dirname(require.resolve('tesseract.js-core/package.json'));
+  await mkdir(path.join(target, 'core'), { recursive: true });
+  await copyFile(path.join(workerDir, 'worker.min.js'), path.join(target, 'worker.min.js'));
+  for (const name of ['tesseract-core.wasm.js', 'tesseract-core-simd.wasm.js', 'tesseract-core-lstm.wasm.js', 'tesseract-core-simd-lstm.wasm.js']) {
+    await copyFile(path.join(coreDir, name), path.join(target, 'core', name));
+  }
+  console.log('İşçi ve çekirdek dosyaları kopyalandı.');
+};
+
+const downloadLanguages = async () => {
+  await mkdir(path.join(target, 'lang'), { recursive: true });
+  for (const lang of LANGS) {
+    const file = path.join(target, 'lang', `${lang}.traineddata.gz`);
+    if (await exists(file)) {
+      console.log(`${lang}: zaten var`);
+      continue;
+    }
+    const response = await fetch(LANG_URL(lang));
+    if (!response.ok) throw new Error(`${lang} indirilemedi (${response.status})`);
+    await writeFile(file, Buffer.from(await response.arrayBuffer()));
+    console.log(`${lang}: indirildi`);
+  }
+};
+
+await copyAssets();
+await downloadLanguages();
@@ -0,0 +1,103 @@
+
+import { MergedImage, SfxHandling, StylePreset } from '../types';
+import { regionToPixels } from './imageUtils';
+import { renderStripRect } from './stripTiles';
+import { renderCleanedPatch } from './textCleaning';
+import { resolveCleanMode } from './regionTypes';
+import { drawRegionText, resolveTextPlacement, ensureFontsReady } from './textRenderer';
+import { displayTextOf } from './regionTranslations';
+
+// Dışa aktarılacak bir dilim; şerit koordinatlarında piksel cinsindendir
+export interface ExportSlice {
+  y: number;
+  width: number;
+  height: number;
+}
+
+type CleanedPatch = Awaited<ReturnType<typeof renderCleanedPatch>>;
+
+/**
+ * Kutuların şeritteki piksel alanı ve yazılarının çizileceği yer. Altyazı modundaki ses efekti
+ * açıklaması kutunun dışına düştüğü için bir kutunun değdiği dilimler ikisinin birleşimine göre bulunur.
+ */
+export const placeRegions = (strip: MergedImage, presets: StylePreset[], sfxHandling: SfxHandling) =>
+  strip.regions.map(region => {
+    const rect = regionToPixels(region, strip.width, strip.height);
+    const text = resolveTextPlacement(region, rect, strip, presets, sfxHandling);
+    return {
+      region,
+      rect,
+      text,
+      top: Math.min(rect.y, text.rect.y),
+      bottom: Math.max(rect.y + rect.h, text.rect.y + text.rect.h)
+    };
+  });
+
+export const touchesSlice = (placed: { top: number, bottom: number }, slice: { y: number, height: number }) =>
+  placed.top < slice.y + slice.height && placed.bottom > slice.y;
+
+const cloneCanvas = (source: HTMLCanvasElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  canvas.getContext('2d')!.drawImage(source, 0, 0);
+  return canvas;
+};
+
+/**
+ * Çevrilmiş şeridi dilim dilim üretir; her dilim hazır olduğunda `onSlice` çağrılır ve canvas
+ * bir sonrakine geçmeden serbest bırakılabilir. Dilim sınırını aşan kutular bir kez temizlenir
+ * ve kesiştikleri her dilime kendi payı kadar çizilir. Dilimler yukarıdan aşağıya sıralı olmalıdır.
+ * Birden fazla dil verilirse temizlenmiş dilim her dil için kopyalanıp yalnızca yazılar ayrı çizilir.
+ * `signal` iptal edilirse sıradaki dilime geçilmez.
+ */
+export const renderTranslatedSlices = async (
+  strip: MergedImage,
+  slices: ExportSlice[],
+  presets: StylePreset[],
+  sfxHandling: SfxHandling,
+  langs: string[],
+  onSlice: (canvas: HTMLCanvasElement, index: number, lang: string) => Promise<void> | void,
+  onProgress?: (status: string) => void,
+  signal?: AbortSignal
+) => {
+  const placed = placeRegions(strip, presets, sfxHandling);
+  await ensureFontsReady(placed.map(p => p.text.style));
+  const patches = new Map<string, CleanedPatch>();
+
+  for (let i = 0; i < slices.length && !signal?.aborted; i++) {
+    const slice = slices[i];
+    onProgress?.(`Sayfa hazırlanıyor: ${i + 1}/${slices.length}`);
+
+    const canvas = await renderStripRect(strip, { x: 0, y: slice.y, w: slice.width, h: slice.height });
+    const ctx = canvas.getContext('2d')!;
+    // Bundan sonraki çizimler şerit koordinatlarında yapılır; dilim dışına taşan kısım kırpılır
+    ctx.translate(0, -slice.y);
+
+    const visible = placed.filter(p => touchesSlice(p, slice));
+    for (const { region } of visible) {
+      const mode = resolveCleanMode(region, sfxHandling);
+      if (mode === 'none') continue;
+      if (!patches.has(region.id)) patches.set(region.id, await renderCleanedPatch(strip, region, mode));
+      const patch = patches.get(region.id)!;
+      ctx.drawImage(patch.canvas, patch.x, patch.y);
+    }
+
+    // Bu dilimde biten kutuların yamalarına sonraki dilimlerde ihtiyaç yoktur
+    visible.forEach(({ region, bottom }) => {
+      if (bottom <= slice.y + slice.height) patches.delete(region.id);
+    });
+
+    for (let j = 0; j < langs.length; j++) {
+      // Son dil temizlenmiş canvas'ın kendisine çizilir
+      const page = j === langs.length - 1 ? canvas : cloneCanvas(canvas);
+      const pageCtx = page.getContext('2d')!;
+      pageCtx.setTransform(1, 0, 0, 1, 0, -slice.y);
+      // Yazılar ayrı turda çizilir ki komşu kutunun temizliği önceki kutunun yazısını örtmesin
+      visible.forEach(({ region, text }) =>
+        drawRegionText(pageCtx, displayTextOf(region, langs[j]), text.rect, text.style)
+      );
+      await onSlice(page, i, langs[j]);
+    }
+  }
+};
@@ -0,0 +1,79 @@
+
+import { ExportFormat, ExportOptions, MergedImage, SfxHandling, StylePreset } from '../types';
+import { renderTranslatedSlices } from './exportRenderer';
+import { computeExportSlices } from './exportSlicing';
+import { createZipArchive, ZipEntry } from './zipArchive';
+import { downloadBlob } from './fileUtils';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string, mime: string, extension: string }> = {
+  jpeg: { name: 'JPEG', mime: 'image/jpeg', extension: 'jpg' },
+  png: { name: 'PNG', mime: 'image/png', extension: 'png' },
+  webp: { name: 'WebP', mime: 'image/webp', extension: 'webp' }
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  sliceMode: 'pages',
+  sliceHeight: 2000,
+  format: 'jpeg',
+  quality: 0.92,
+  fileNamePattern: '{n}',
+  archive: 'zip'
+};
+
+// Dosya sistemlerinde geçersiz karakterler
+const INVALID_FILE_CHARS = /[\\/:*?"<>|]/g;
+
+export const formatExportFileName = (
+  pattern: string,
+  vars: { index: number, total: number, lang: string, date: Date }
+) => {
+  // {n} yoksa dosyalar birbirinin üzerine yazılmasın diye sona eklenir
+  const template = pattern.includes('{n}') ? pattern : `${pattern}_{n}`;
+  const n = String(vars.index + 1).padStart(String(vars.total).length, '0');
+  const date = vars.date.toISOString().slice(0, 10);
+  return template
+    .replace(/\{n\}/g, n)
+    .replace(/\{total\}/g, String(vars.total))
+    .replace(/\{lang\}/g, vars.lang)
+    .replace(/\{date\}/g, date)
+    .replace(INVALID_FILE_CHARS, '_')
+    .trim() || n;
+};
+
+/**
+ * Şeridi seçilen dilimleme, biçim ve adlandırmayla dışa aktarır. Her dil için ayrı bir ZIP/CBZ
+ * indirilir; kutular ve temizlik tüm dillerde ortaktır.
+ */
+export const exportStrip = async (
+  strip: MergedImage,
+  presets: StylePreset[],
+  sfxHandling: SfxHandling,
+  options: ExportOptions,
+  langs: string[],
+  onProgress?: (status: string) => void
+) => {
+  onProgress?.('Kesim noktaları hesaplanıyor...');
+  const slices = await computeExportSlices(strip, options);
+  const format = EXPORT_FORMATS[options.format];
+  const date = new Date();
+  const entries = new Map<string, ZipEntry[]>(langs.map(lang => [lang, []]));
+
+  await renderTranslatedSlices(strip, slices, presets, sfxHandling, langs, async (canvas, index, lang) => {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format.mime, options.quality));
+    if (!blob) throw new Error('Sayfa görseli oluşturulamadı.');
+    // Desteklenmeyen biçimde tarayıcı sessizce PNG'ye döner
+    if (blob.type !== format.mime) throw new Error(`Tarayıcınız ${format.name} biçiminde kaydetmeyi desteklemiyor.`);
+    const name = formatExportFileName(options.fileNamePattern, { index, total: slices.length, lang, date });
+    entries.get(lang)!.push({ name: `${name}.${format.extension}`, data: blob });
+  }, onProgress);
+
+  const archive = options.archive === 'cbz'
+    ? { extension: 'cbz', type: 'application/vnd.comicbook+zip' }
+    : { extension: 'zip', type: 'application/zip' };
+  for (const lang of langs) {
+    onProgress?.(langs.length > 1 ? `Arşiv oluşturuluyor: ${lang}` : 'Arşiv oluşturuluyor...');
+    const suffix = langs.length > 1 ? `_${lang}` : '';
+    downloadBlob(await createZipArchive(entries.get(lang)!, archive.type), `webtoon_final_${date.getTime()}${suffix}.${archive.extension}`);
+  }
+  return slices.length;
+};
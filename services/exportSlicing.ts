@@ -0,0 +1,87 @@
+
+import { ExportOptions, MergedImage } from '../types';
+import { ExportSlice } from './exportRenderer';
+import { regionToPixels } from './imageUtils';
+import { renderStripRect } from './stripTiles';
+
+// Boşluk analizi için şerit bu genişliğe küçültülür ve bu yükseklikte bantlarla taranır
+const ANALYSIS_WIDTH = 240;
+const ANALYSIS_BAND_ROWS = 4000;
+// Bir satırın boşluk (gutter) sayılması için en açık ve en koyu pikseli arasındaki en fazla fark
+const GUTTER_TOLERANCE = 12;
+// Kesim noktası hedef yüksekliğin bu oranı kadar yukarı veya aşağı kayabilir
+const CUT_SEARCH_RATIO = 0.25;
+
+// Küçültülmüş şeridin her satırı için tek renkli (boşluk) olup olmadığını döndürür
+const scanUniformRows = async (strip: MergedImage) => {
+  const scale = Math.min(1, ANALYSIS_WIDTH / strip.width);
+  const totalRows = Math.ceil(strip.height * scale);
+  const uniform = new Uint8Array(totalRows);
+
+  for (let row = 0; row < totalRows; row += ANALYSIS_BAND_ROWS) {
+    const rows = Math.min(ANALYSIS_BAND_ROWS, totalRows - row);
+    const canvas = await renderStripRect(strip, { x: 0, y: row / scale, w: strip.width, h: rows / scale }, scale);
+    const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+    for (let y = 0; y < Math.min(rows, height); y++) {
+      let min = 255, max = 0;
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        // Dar sayfaların sağında kalan boş (saydam) alan hesaba katılmaz
+        if (data[i + 3] === 0) continue;
+        const gray = (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+        if (gray < min) min = gray;
+        if (gray > max) max = gray;
+      }
+      uniform[row + y] = max - min <= GUTTER_TOLERANCE ? 1 : 0;
+    }
+  }
+
+  return { uniform, scale };
+};
+
+const cutFixedHeight = async (strip: MergedImage, sliceHeight: number): Promise<number[]> => {
+  const { uniform, scale } = await scanUniformRows(strip);
+  const boxes = strip.regions.map(r => regionToPixels(r, strip.width, strip.height));
+  const insideRegion = (y: number) => boxes.some(b => y > b.y && y < b.y + b.h);
+  const isGutter = (y: number) => uniform[Math.min(uniform.length - 1, Math.floor(y * scale))] === 1;
+
+  const cuts: number[] = [];
+  const searchRange = sliceHeight * CUT_SEARCH_RATIO;
+  let start = 0;
+
+  // Kalan kısım izin verilen en uzun dilime sığana kadar kesilir
+  while (strip.height - start > sliceHeight + searchRange) {
+    const ideal = start + sliceHeight;
+    let best: number | null = null;
+    let fallback: number | null = null;
+    // Hedefe en yakından başlayarak yukarı ve aşağı doğru aranır
+    for (let d = 0; d <= searchRange; d += 1 / scale) {
+      for (const y of [Math.round(ideal - d), Math.round(ideal + d)]) {
+        if (y <= start || y >= strip.height || insideRegion(y)) continue;
+        if (isGutter(y)) { best = y; break; }
+        if (fallback === null) fallback = y;
+      }
+      if (best !== null) break;
+    }
+    const cut = best ?? fallback ?? Math.round(ideal);
+    cuts.push(cut);
+    start = cut;
+  }
+
+  return cuts;
+};
+
+/**
+ * Dışa aktarma dilimlerini hesaplar. Sabit yükseklik modunda kesimler boş (tek renkli) satırlara
+ * ve hiçbir kutunun içinden geçmeyecek şekilde hedef yüksekliğin yakınına yerleştirilir.
+ */
+export const computeExportSlices = async (strip: MergedImage, options: ExportOptions): Promise<ExportSlice[]> => {
+  if (options.sliceMode === 'pages') {
+    return strip.tiles.map(tile => ({ y: tile.y, width: tile.width, height: tile.height }));
+  }
+
+  const cuts = await cutFixedHeight(strip, Math.max(100, options.sliceHeight));
+  const bounds = [0, ...cuts, strip.height];
+  return bounds.slice(0, -1).map((y, i) => ({ y, width: strip.width, height: bounds[i + 1] - y }));
+};
@@ -0,0 +1,22 @@
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  // Bazı tarayıcılar indirmeyi bir sonraki tick'te başlatır
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (text: string, fileName: string, type = 'text/plain') =>
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), fileName);
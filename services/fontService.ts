@@ -0,0 +1,23 @@
+
+import { CustomFont } from '../types';
+
+const registered = new Map<string, FontFace>();
+
+// Yüklenen font dosyasının adından bir font ailesi adı türetir (ör. "CC Wild Words.ttf" -> "CC Wild Words")
+export const fontFamilyFromFileName = (fileName: string) =>
+  fileName.replace(/\.(ttf|otf|woff2?)$/i, '').replace(/[_-]+/g, ' ').trim() || 'Custom Font';
+
+export const registerCustomFont = async (font: CustomFont) => {
+  if (registered.has(font.family)) return;
+  const face = new FontFace(font.family, await font.blob.arrayBuffer());
+  await face.load();
+  document.fonts.add(face);
+  registered.set(font.family, face);
+};
+
+export const unregisterCustomFont = (family: string) => {
+  const face = registered.get(family);
+  if (!face) return;
+  document.fonts.delete(face);
+  registered.delete(family);
+};
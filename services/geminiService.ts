@@ -1,44 +1,49 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
+import { OcrEngine, OcrResult, TranslationProvider } from '../types';
+import { buildTranslationPrompt, collectItemImages, parseTranslationResponse } from './translationPrompt';
+import { withNetworkErrors } from './translationErrors';
 
 // Vite projelerinde process.env yerine import.meta.env kullanılır.
 // Eğer düz bir script ise process.env.API_KEY fallback olarak kalabilir.
-const apiKey = (import.meta as any).env?.VITE_GEMINI_API_KEY || (process as any).env?.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+const envApiKey = (import.meta as any).env?.VITE_GEMINI_API_KEY || (process as any).env?.API_KEY || '';
 
-interface OcrInput {
-  id: string;
-  originalText: string;
-}
+// Aynı anahtar için istemciyi tekrar tekrar oluşturmamak adına önbellek
+const clients = new Map<string, GoogleGenAI>();
+const getClient = (apiKey: string) => {
+  if (!clients.has(apiKey)) clients.set(apiKey, new GoogleGenAI({ apiKey }));
+  return clients.get(apiKey)!;
+};
+
+export const hasGeminiEnvKey = () => Boolean(envApiKey);
 
-export const translateOcrResults = async (
-  ocrData: OcrInput[], 
-  sourceLang: string, 
-  targetLang: string
-) => {
-  if (ocrData.length === 0) return [];
-  if (!apiKey) {
-    console.error("API Key bulunamadı! Lütfen .env dosyanızı kontrol edin.");
-    return [];
+const resolveApiKey = (apiKey?: string) => {
+  const key = apiKey || envApiKey;
+  if (!key) {
+    throw new Error("API Key bulunamadı! Lütfen .env dosyanızı veya sağlayıcı ayarlarını kontrol edin.");
   }
+  return key;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  defaultModel: 'gemini-3-flash-preview',
+  suggestedModels: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  supportsImages: true,
+  translate: async (request, config) => {
+    const response = await withNetworkErrors(getClient(resolveApiKey(config.apiKey)).models.generateContent({
+      model: config.model || geminiProvider.defaultModel,
       contents: [
         {
           parts: [
-            {
-              text: `You are a professional webtoon translator. 
-              Below is a list of texts detected via OCR from a webtoon panel (Source: ${sourceLang}).
-              Please provide a natural, high-quality translation for each item into ${targetLang}. 
-              Maintain the emotional tone and context of a comic/manga.
-              
-              OCR DATA:
-              ${JSON.stringify(ocrData)}
-              
-              Return ONLY a valid JSON array of objects with 'id' and 'translatedText' properties.`
-            }
+            { text: buildTranslationPrompt(request) },
+            ...collectItemImages(request).flatMap(image => [
+              { text: `Image for id ${image.id}:` },
+              { inlineData: { mimeType: image.mimeType, data: image.data } }
+            ])
           ]
         }
       ],
@@ -56,12 +61,82 @@ export const translateOcrResults = async (
           }
         }
       }
-    });
+    }));
+
+    return parseTranslationResponse(response.text || '[]');
+  }
+};
+
+// Görsel OCR'da aynı anda gönderilen istek sayısı; hız sınırına takılmamak için düşük tutulur
+const OCR_CONCURRENCY = 3;
+
+const buildOcrPrompt = (sourceLang: string, vertical: boolean) => `
+  You are reading the lettering inside a single speech bubble or caption cropped from a comic page.
+  The text is written in ${sourceLang}. It may be hand-lettered, stylized or split across several lines.
+  ${vertical ? 'The text is most likely written vertically: read columns top to bottom, right to left.' : ''}
+  Transcribe it exactly as written, joining lines with a single space. Do not translate or correct it.
+  If the image contains no readable text, return an empty string.
+  Also estimate how certain you are of the transcription, from 0 (guess) to 1 (certain).
+`;
+
+const isRawOcrResult = (value: unknown): value is { text: string, confidence?: unknown } =>
+  typeof value === 'object' && value !== null && typeof (value as { text?: unknown }).text === 'string';
+
+// Bozuk yanıt boş ve sıfır güvenli sayılır; kutu düşük güvenli olarak işaretlenip gözden geçirilir
+const parseOcrResponse = (raw: string): OcrResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    console.warn('OCR yanıtı JSON olarak çözülemedi:', err);
+    return { text: '', confidence: 0 };
+  }
+  if (!isRawOcrResult(parsed)) return { text: '', confidence: 0 };
+  const confidence = typeof parsed.confidence === 'number' && Number.isFinite(parsed.confidence) ? parsed.confidence : 0;
+  return { text: parsed.text.trim(), confidence: Math.min(1, Math.max(0, confidence)) };
+};
+
+// Stilize yazılarda Tesseract'tan daha iyi sonuç veren görsel dil modeli ile okuma.
+// Güven değeri modelin kendi tahminidir; Tesseract'ınkiyle birebir karşılaştırılamaz.
+export const geminiOcrEngine: OcrEngine = {
+  id: 'gemini-vision',
+  name: 'Gemini Görsel OCR',
+  defaultModel: 'gemini-2.5-flash',
+  suggestedModels: ['gemini-2.5-flash', 'gemini-3-flash-preview', 'gemini-2.5-pro'],
+  requiresApiKey: true,
+  preprocessByDefault: false,
+  createSession: async (sourceLang, config) => {
+    const client = getClient(resolveApiKey(config.apiKey));
+    return {
+      concurrency: OCR_CONCURRENCY,
+      recognize: async (canvas, { vertical }) => {
+        const data = canvas.toDataURL('image/png').split(',')[1];
+        const response = await withNetworkErrors(client.models.generateContent({
+          model: config.model || geminiOcrEngine.defaultModel,
+          contents: [
+            {
+              parts: [
+                { text: buildOcrPrompt(sourceLang, vertical) },
+                { inlineData: { mimeType: 'image/png', data } }
+              ]
+            }
+          ],
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                confidence: { type: Type.NUMBER }
+              },
+              required: ['text', 'confidence']
+            }
+          }
+        }));
 
-    const jsonStr = response.text?.trim() || '[]';
-    return JSON.parse(jsonStr);
-  } catch (e) {
-    console.error("Gemini translation error:", e);
-    return [];
+        return parseOcrResponse(response.text || '');
+      },
+      terminate: async () => {}
+    };
   }
 };
@@ -0,0 +1,70 @@
+
+import { GlossaryEntry, GlossaryViolation } from '../types';
+import { escapeCsv, parseCsv } from './csv';
+
+const normalize = (text: string) => text.normalize('NFC').toLocaleLowerCase();
+
+// Boşluksuz yazılan diller (Korece, Japonca, Çince) için kelime sınırı aranmaz; basit içerme kontrolü yapılır
+const containsTerm = (text: string, term: string) => {
+  const t = normalize(term.trim());
+  return t.length > 0 && normalize(text).includes(t);
+};
+
+// Sadece metinlerde gerçekten geçen terimleri döndürür; isteğe tüm sözlüğü eklememek için kullanılır
+export const findApplicableEntries = (glossary: GlossaryEntry[], texts: string[]) =>
+  glossary.filter(entry => entry.source.trim() && entry.target.trim() && texts.some(text => containsTerm(text, entry.source)));
+
+export const checkGlossary = (
+  originalText: string,
+  translatedText: string,
+  glossary: GlossaryEntry[]
+): GlossaryViolation[] => {
+  if (!originalText || !translatedText) return [];
+  return findApplicableEntries(glossary, [originalText])
+    .filter(entry => !containsTerm(translatedText, entry.target))
+    .map(entry => ({ entryId: entry.id, source: entry.source, expected: entry.target }));
+};
+
+export const formatGlossaryForPrompt = (entries: GlossaryEntry[]) =>
+  entries
+    .map(e => `- "${e.source}" => "${e.target}"${e.notes ? ` (${e.notes})` : ''}`)
+    .join('\n');
+
+export const glossaryToCsv = (glossary: GlossaryEntry[]) =>
+  ['source,target,notes', ...glossary.map(e => [e.source, e.target, e.notes || ''].map(escapeCsv).join(','))].join('\n');
+
+export const glossaryToJson = (glossary: GlossaryEntry[]) =>
+  JSON.stringify(glossary.map(({ source, target, notes }) => ({ source, target, notes })), null, 2);
+
+export const parseGlossaryFile = (fileName: string, content: string): GlossaryEntry[] => {
+  let raw: { source?: string, target?: string, notes?: string }[];
+
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const rows = parseCsv(content);
+    const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === 'source';
+    raw = (hasHeader ? rows.slice(1) : rows).map(([source, target, notes]) => ({ source, target, notes }));
+  } else {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) throw new Error('Sözlük dosyası bir dizi içermelidir.');
+    raw = parsed;
+  }
+
+  return raw
+    .filter(e => e && typeof e.source === 'string' && typeof e.target === 'string' && e.source.trim())
+    .map(e => ({
+      id: Math.random().toString(36).substr(2, 9),
+      source: e.source!.trim(),
+      target: e.target!.trim(),
+      notes: e.notes?.trim() || undefined
+    }));
+};
+
+// İçe aktarılan girdiler aynı kaynak terime sahip mevcut girdilerin üzerine yazar
+export const mergeGlossaries = (current: GlossaryEntry[], incoming: GlossaryEntry[]) => {
+  const bySource = new Map(current.map(e => [normalize(e.source), e]));
+  incoming.forEach(e => {
+    const existing = bySource.get(normalize(e.source));
+    bySource.set(normalize(e.source), existing ? { ...e, id: existing.id } : e);
+  });
+  return Array.from(bySource.values());
+};
@@ -0,0 +1,118 @@
+
+import { TextRegion } from '../types';
+
+// Her komut kutu listesinin önceki ve sonraki halini saklar; diziler değişmez (immutable)
+// olduğu için değişmeyen kutular iki hal arasında paylaşılır ve bellek maliyeti düşük kalır.
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  before: TextRegion[];
+  after: TextRegion[];
+  coalesceKey?: string;
+  time: number;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const HISTORY_LIMIT = 200;
+// Aynı alana bu süre içinde yapılan yazma işlemleri tek adımda birleştirilir
+const COALESCE_WINDOW_MS = 1500;
+
+export const pushHistory = (
+  state: HistoryState,
+  label: string,
+  before: TextRegion[],
+  after: TextRegion[],
+  coalesceKey?: string
+): HistoryState => {
+  const now = Date.now();
+  const last = state.past[state.past.length - 1];
+
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.time < COALESCE_WINDOW_MS) {
+    return {
+      past: [...state.past.slice(0, -1), { ...last, after, time: now }],
+      future: []
+    };
+  }
+
+  const entry: HistoryEntry = {
+    id: Math.random().toString(36).substr(2, 9),
+    label,
+    before,
+    after,
+    coalesceKey,
+    time: now
+  };
+  return { past: [...state.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+export const undoHistory = (state: HistoryState) => {
+  const entry = state.past[state.past.length - 1];
+  if (!entry) return null;
+  return {
+    state: { past: state.past.slice(0, -1), future: [entry, ...state.future] },
+    regions: entry.before
+  };
+};
+
+export const redoHistory = (state: HistoryState) => {
+  const entry = state.future[0];
+  if (!entry) return null;
+  return {
+    state: { past: [...state.past, entry], future: state.future.slice(1) },
+    regions: entry.after
+  };
+};
+
+// Geçmiş listesinde bir adıma tıklandığında o adımın sonrasına kadar geri/ileri gider
+export const jumpToHistory = (state: HistoryState, entryId: string | null) => {
+  const all = [...state.past, ...state.future];
+  if (all.length === 0) return null;
+  const index = entryId === null ? -1 : all.findIndex(e => e.id === entryId);
+  if (entryId !== null && index < 0) return null;
+  return {
+    state: { past: all.slice(0, index + 1), future: all.slice(index + 1) },
+    regions: index >= 0 ? all[index].after : all[0].before
+  };
+};
+
+const TEXT_FIELDS = ['originalText', 'translations', 'notes'];
+const TEXT_FIELD_LABELS: Record<string, string> = {
+  originalText: 'Kaynak metin düzenlendi',
+  translations: 'Çeviri düzenlendi',
+  notes: 'Not düzenlendi'
+};
+// Metinle birlikte güncellenen, etiket seçiminde dikkate alınmayan alanlar
+const STATUS_FIELDS = ['ocrEngine', 'ocrConfidence'];
+const GEOMETRY_FIELDS = ['x', 'y', 'width', 'height'];
+
+// Güncellenen alanlara göre geçmiş listesinde gösterilecek etiket ve birleştirme anahtarı
+export const describeRegionUpdate = (updates: Record<string, Partial<TextRegion>>) => {
+  const ids = Object.keys(updates);
+  const fields = Array.from(new Set(ids.flatMap(id => Object.keys(updates[id]))))
+    .filter(f => !STATUS_FIELDS.includes(f));
+
+  if (ids.length === 1 && fields.length === 1 && TEXT_FIELDS.includes(fields[0])) {
+    return {
+      label: TEXT_FIELD_LABELS[fields[0]],
+      coalesceKey: `${fields[0]}:${ids[0]}`
+    };
+  }
+  if (fields.every(f => GEOMETRY_FIELDS.includes(f))) {
+    // Ok tuşlarıyla art arda yapılan kaydırmalar tek adım sayılır
+    return {
+      label: ids.length > 1 ? `${ids.length} kutu taşındı` : 'Kutu taşındı / boyutlandırıldı',
+      coalesceKey: `geometry:${[...ids].sort().join(',')}`
+    };
+  }
+  if (fields.every(f => ['style', 'presetId'].includes(f))) return { label: 'Stil değiştirildi' };
+  if (fields.every(f => f === 'cleanMode')) return { label: 'Temizleme modu değiştirildi' };
+  // Tür değişince ön ayar ve temizleme de türün varsayılanına döner
+  if (fields.includes('type') && fields.every(f => ['type', 'presetId', 'cleanMode'].includes(f))) return { label: 'Kutu türü değiştirildi' };
+  return { label: 'Kutu düzenlendi' };
+};
@@ -0,0 +1,19 @@
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Görsel yüklenemedi.'));
+  img.src = src;
+});
+
+// Yüzde cinsinden kutu koordinatlarını verilen görselin piksel koordinatlarına çevirir
+export const regionToPixels = (
+  region: { x: number, y: number, width: number, height: number },
+  imageWidth: number,
+  imageHeight: number
+) => ({
+  x: (region.x / 100) * imageWidth,
+  y: (region.y / 100) * imageHeight,
+  w: (region.width / 100) * imageWidth,
+  h: (region.height / 100) * imageHeight
+});
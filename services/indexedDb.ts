@@ -0,0 +1,79 @@
+
+// Uygulamanın tüm kalıcı verileri tek bir IndexedDB veritabanında tutulur.
+// Yeni bir store eklendiğinde DB_VERSION artırılmalı ve onupgradeneeded içine eklenmelidir.
+const DB_NAME = 'webtoon-master';
+const DB_VERSION = 2;
+
+export const STORES = {
+  AUTOSAVE: 'autosave',
+  TRANSLATION_MEMORY: 'translationMemory'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB bu tarayıcıda desteklenmiyor.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.AUTOSAVE)) {
+        db.createObjectStore(STORES.AUTOSAVE);
+      }
+      // v2: çeviri belleği; kayıtlar dil çifti indeksiyle okunur
+      if (!db.objectStoreNames.contains(STORES.TRANSLATION_MEMORY)) {
+        const store = db.createObjectStore(STORES.TRANSLATION_MEMORY, { keyPath: 'key' });
+        store.createIndex('pair', 'pair');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbGet = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisifyRequest<T>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbPut = async (store: string, key: IDBValidKey | undefined, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const objectStore = db.transaction(store, 'readwrite').objectStore(store);
+  await promisifyRequest(key === undefined ? objectStore.put(value) : objectStore.put(value, key));
+};
+
+export const idbDelete = async (store: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const idbGetAllByIndex = async <T>(store: string, index: string, key: IDBValidKey): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisifyRequest<T[]>(db.transaction(store, 'readonly').objectStore(store).index(index).getAll(key));
+};
+
+export const idbCountByIndex = async (store: string, index: string, key: IDBValidKey): Promise<number> => {
+  const db = await openDatabase();
+  return promisifyRequest(db.transaction(store, 'readonly').objectStore(store).index(index).count(key));
+};
+
+export const idbDeleteByIndex = async (store: string, index: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const objectStore = db.transaction(store, 'readwrite').objectStore(store);
+  const keys = await promisifyRequest(objectStore.index(index).getAllKeys(key));
+  await Promise.all(keys.map(k => promisifyRequest(objectStore.delete(k))));
+};
@@ -0,0 +1,178 @@
+
+// Telea (2004) "An Image Inpainting Technique Based on the Fast Marching Method" algoritmasının
+// sadeleştirilmiş CPU uygulaması. Maske dışındaki piksellerden başlayarak maskenin içine doğru
+// ilerler ve her pikseli komşularının ağırlıklı ortalamasıyla doldurur.
+
+const KNOWN = 0;
+const BAND = 1;
+const INSIDE = 2;
+const INF = 1e6;
+
+class MinHeap {
+  private keys: number[] = [];
+  private values: number[] = [];
+
+  get size() {
+    return this.values.length;
+  }
+
+  push(key: number, value: number) {
+    this.keys.push(key);
+    this.values.push(value);
+    let i = this.values.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.values[0];
+    const lastKey = this.keys.pop()!;
+    const lastValue = this.values.pop()!;
+    if (this.values.length > 0) {
+      this.keys[0] = lastKey;
+      this.values[0] = lastValue;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1, r = l + 1;
+        let min = i;
+        if (l < this.keys.length && this.keys[l] < this.keys[min]) min = l;
+        if (r < this.keys.length && this.keys[r] < this.keys[min]) min = r;
+        if (min === i) break;
+        this.swap(i, min);
+        i = min;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.values[a], this.values[b]] = [this.values[b], this.values[a]];
+  }
+}
+
+/**
+ * `data` RGBA piksel dizisi yerinde değiştirilir. `mask` içinde 1 olan pikseller doldurulur.
+ */
+export const inpaintTelea = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  radius = 5
+) => {
+  const flags = new Uint8Array(width * height);
+  const dist = new Float32Array(width * height);
+  const heap = new MinHeap();
+
+  for (let i = 0; i < width * height; i++) {
+    flags[i] = mask[i] ? INSIDE : KNOWN;
+    dist[i] = mask[i] ? INF : 0;
+  }
+
+  // Maskeye komşu bilinen pikseller başlangıç bandını oluşturur
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (flags[i] !== KNOWN) continue;
+      const touchesMask =
+        (x > 0 && flags[i - 1] === INSIDE) || (x < width - 1 && flags[i + 1] === INSIDE) ||
+        (y > 0 && flags[i - width] === INSIDE) || (y < height - 1 && flags[i + width] === INSIDE);
+      if (touchesMask) {
+        flags[i] = BAND;
+        heap.push(0, i);
+      }
+    }
+  }
+
+  const at = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? -1 : y * width + x;
+
+  const solve = (a: number, b: number) => {
+    if (a < 0 || b < 0) {
+      const valid = a < 0 ? b : a;
+      return valid >= 0 && flags[valid] !== INSIDE ? 1 + dist[valid] : INF;
+    }
+    const ta = dist[a], tb = dist[b];
+    if (flags[a] !== INSIDE && flags[b] !== INSIDE) {
+      if (Math.abs(ta - tb) >= 1) return 1 + Math.min(ta, tb);
+      return (ta + tb + Math.sqrt(2 - (ta - tb) * (ta - tb))) * 0.5;
+    }
+    if (flags[a] !== INSIDE) return 1 + ta;
+    if (flags[b] !== INSIDE) return 1 + tb;
+    return INF;
+  };
+
+  const gradient = (x: number, y: number) => {
+    const grad = (prev: number, next: number, center: number) => {
+      const hasPrev = prev >= 0 && flags[prev] !== INSIDE;
+      const hasNext = next >= 0 && flags[next] !== INSIDE;
+      if (hasPrev && hasNext) return (dist[next] - dist[prev]) * 0.5;
+      if (hasNext) return dist[next] - dist[center];
+      if (hasPrev) return dist[center] - dist[prev];
+      return 0;
+    };
+    const i = at(x, y);
+    return [grad(at(x - 1, y), at(x + 1, y), i), grad(at(x, y - 1), at(x, y + 1), i)];
+  };
+
+  const fill = (x: number, y: number) => {
+    const i = y * width + x;
+    const [gx, gy] = gradient(x, y);
+    let r = 0, g = 0, b = 0, sum = 0;
+
+    for (let ny = Math.max(0, y - radius); ny <= Math.min(height - 1, y + radius); ny++) {
+      for (let nx = Math.max(0, x - radius); nx <= Math.min(width - 1, x + radius); nx++) {
+        const n = ny * width + nx;
+        if (flags[n] === INSIDE || n === i) continue;
+        const dx = x - nx, dy = y - ny;
+        const len2 = dx * dx + dy * dy;
+        if (len2 > radius * radius) continue;
+
+        const len = Math.sqrt(len2);
+        const direction = Math.abs(dx * gx + dy * gy) / len || 1e-6;
+        const distance = 1 / (len2 * len);
+        const level = 1 / (1 + Math.abs(dist[n] - dist[i]));
+        const w = direction * distance * level;
+
+        r += data[n * 4] * w;
+        g += data[n * 4 + 1] * w;
+        b += data[n * 4 + 2] * w;
+        sum += w;
+      }
+    }
+
+    if (sum > 0) {
+      data[i * 4] = r / sum;
+      data[i * 4 + 1] = g / sum;
+      data[i * 4 + 2] = b / sum;
+      data[i * 4 + 3] = 255;
+    }
+  };
+
+  while (heap.size > 0) {
+    const p = heap.pop();
+    if (flags[p] === KNOWN) continue;
+    flags[p] = KNOWN;
+    const px = p % width, py = (p - px) / width;
+
+    for (const [qx, qy] of [[px - 1, py], [px + 1, py], [px, py - 1], [px, py + 1]]) {
+      const q = at(qx, qy);
+      if (q < 0 || flags[q] !== INSIDE) continue;
+
+      dist[q] = Math.min(
+        solve(at(qx, qy - 1), at(qx - 1, qy)),
+        solve(at(qx, qy + 1), at(qx - 1, qy)),
+        solve(at(qx, qy - 1), at(qx + 1, qy)),
+        solve(at(qx, qy + 1), at(qx + 1, qy))
+      );
+      flags[q] = BAND;
+      fill(qx, qy);
+      heap.push(dist[q], q);
+    }
+  }
+};
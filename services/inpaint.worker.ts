@@ -0,0 +1,25 @@
+
+/// <reference lib="webworker" />
+
+import { inpaintTelea } from './inpaint';
+
+export interface InpaintJob {
+  id: number;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  mask: Uint8Array;
+  radius: number;
+}
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<InpaintJob>) => {
+  const { id, width, height, data, mask, radius } = e.data;
+  try {
+    inpaintTelea(data, width, height, mask, radius);
+    self.postMessage({ id, data }, [data.buffer]);
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,49 @@
+
+import { MergedImage, SfxHandling, StripTile, StylePreset } from '../types';
+import { resolveCleanMode } from './regionTypes';
+import { displayTextOf } from './regionTranslations';
+import { placeRegions, renderTranslatedSlices, touchesSlice } from './exportRenderer';
+
+/**
+ * Sayfanın önizlemesini etkileyen her şeyin özeti: sayfaya değen kutuların (ses efekti açıklamaları
+ * dahil) konumu, metni, stili ve temizlik modu. Özet değişmeyen sayfalar yeniden çizilmez.
+ */
+export const previewTileKey = (strip: MergedImage, tile: StripTile, lang: string, presets: StylePreset[], sfxHandling: SfxHandling) =>
+  JSON.stringify(
+    placeRegions(strip, presets, sfxHandling)
+      .filter(placed => touchesSlice(placed, tile))
+      .map(({ region, text }) => [
+        region.id,
+        region.x,
+        region.y,
+        region.width,
+        region.height,
+        resolveCleanMode(region, sfxHandling),
+        displayTextOf(region, lang),
+        text.rect,
+        text.style
+      ])
+  );
+
+/**
+ * Verilen sayfaları dışa aktarmayla aynı çizimle (temizlik + dizgi) üretir ve her biri için
+ * bir nesne URL'si döndürür. URL'leri serbest bırakmak çağıranın işidir.
+ */
+export const renderPreviewTiles = async (
+  strip: MergedImage,
+  tiles: StripTile[],
+  presets: StylePreset[],
+  sfxHandling: SfxHandling,
+  lang: string,
+  onTile: (pageId: string, url: string) => void,
+  signal: AbortSignal
+) => {
+  const ordered = [...tiles].sort((a, b) => a.y - b.y);
+  const slices = ordered.map(tile => ({ y: tile.y, width: tile.width, height: tile.height }));
+  await renderTranslatedSlices(strip, slices, presets, sfxHandling, [lang], async (canvas, index) => {
+    // JPEG, uzun sayfalarda PNG'ye göre çok daha hızlı kodlanır; önizleme için kalite yeterlidir
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob || signal.aborted) return;
+    onTile(ordered[index].pageId, URL.createObjectURL(blob));
+  }, undefined, signal);
+};
@@ -0,0 +1,44 @@
+
+import { TranslationProvider } from '../types';
+import { TranslationRequestError } from './translationErrors';
+
+// 'flaky' modelinde bir isteğin geçici hatayla düşme ve bir kutunun yanıttan eksik kalma olasılıkları
+const FLAKY_ERROR_RATE = 0.3;
+const FLAKY_DROP_RATE = 0.2;
+const FLAKY_SEED = 0x5eed;
+
+// Tohumlu sözde rastgele sayı üreteci (mulberry32); aynı tohum her oturumda aynı hata dizisini verir
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const flakyRandom = seededRandom(FLAKY_SEED);
+
+// Ağ kullanmayan, her zaman aynı çıktıyı üreten test sağlayıcısı. 'flaky' modeli yeniden deneme
+// ve eksik yanıt doğrulamasını denemek için sabit tohumdan türeyen, tekrarlanabilir hatalar üretir.
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  name: 'Çevrimdışı / Test',
+  defaultModel: 'echo',
+  suggestedModels: ['echo', 'upper', 'flaky'],
+  requiresApiKey: false,
+  requiresBaseUrl: false,
+  supportsImages: false,
+  translate: async ({ items, targetLang }, config) => {
+    if (config.model === 'flaky' && flakyRandom() < FLAKY_ERROR_RATE) {
+      throw new TranslationRequestError('Sahte hız sınırı (429)', 429, 500);
+    }
+    const outputs = items.map(item => ({
+      id: item.id,
+      translatedText: config.model === 'upper'
+        ? item.originalText.toLocaleUpperCase()
+        : `[${targetLang}] ${item.originalText}`
+    }));
+    return config.model === 'flaky' && outputs.length > 1 && flakyRandom() < FLAKY_DROP_RATE
+      ? outputs.slice(1)
+      : outputs;
+  }
+};
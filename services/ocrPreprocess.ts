@@ -0,0 +1,226 @@
+
+import { OcrPreprocessOptions } from '../types';
+
+export const DEFAULT_PREPROCESS_OPTIONS: OcrPreprocessOptions = {
+  enabled: true,
+  upscale: 0,
+  binarize: true,
+  invert: 'auto',
+  padding: 12,
+  deskew: true,
+  vertical: 'auto'
+};
+
+// Otomatik büyütmede kısa kenarın ulaşması gereken boyut ve en büyük kat
+const AUTO_MIN_SIDE = 200;
+const MAX_UPSCALE = 4;
+// Bradley eşiklemesi: piksel, çevresinin ortalamasından bu oran kadar koyuysa mürekkeptir
+const THRESHOLD_RATIO = 0.15;
+// Kenar halkasının ortalaması bunun altındaysa zemin koyu kabul edilir
+const DARK_BACKGROUND_LUMA = 110;
+// Eğiklik aranan aralık ve adım (derece)
+const MAX_SKEW = 8;
+const SKEW_STEP = 0.5;
+// Eğiklik tahmini için kullanılan en fazla mürekkep pikseli
+const SKEW_SAMPLES = 20000;
+
+export interface PreprocessResult {
+  canvas: HTMLCanvasElement;
+  scale: number;
+  inverted: boolean;
+  vertical: boolean;
+  rotation: number; // Uygulanan düzeltme (derece)
+}
+
+const resolveScale = (w: number, h: number, upscale: number) => {
+  if (upscale > 0) return upscale;
+  return Math.min(MAX_UPSCALE, Math.max(1, Math.ceil(AUTO_MIN_SIDE / Math.max(1, Math.min(w, h)))));
+};
+
+const toGray = (data: Uint8ClampedArray, count: number) => {
+  const gray = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+const borderMean = (gray: Uint8Array, w: number, h: number) => {
+  const ring = Math.max(1, Math.round(Math.min(w, h) * 0.03));
+  let sum = 0;
+  let count = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (x >= ring && x < w - ring && y >= ring && y < h - ring) continue;
+      sum += gray[y * w + x];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 255;
+};
+
+// Bradley uyarlamalı eşikleme; renkli balonlarda ve gölgeli zeminlerde sabit eşikten iyi sonuç verir
+const adaptiveInkMask = (gray: Uint8Array, w: number, h: number) => {
+  const integral = new Float64Array((w + 1) * (h + 1));
+  for (let y = 0; y < h; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < w; x++) {
+      rowSum += gray[y * w + x];
+      integral[(y + 1) * (w + 1) + x + 1] = integral[y * (w + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const radius = Math.max(7, Math.round(Math.min(w, h) / 16));
+  const ink = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(h, y + radius + 1);
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(w, x + radius + 1);
+      const sum = integral[y1 * (w + 1) + x1] - integral[y0 * (w + 1) + x1] - integral[y1 * (w + 1) + x0] + integral[y0 * (w + 1) + x0];
+      const area = (x1 - x0) * (y1 - y0);
+      if (gray[y * w + x] * area < sum * (1 - THRESHOLD_RATIO)) ink[y * w + x] = 1;
+    }
+  }
+  return ink;
+};
+
+// Profildeki içteki (kenar boşlukları hariç) en uzun boş aralık
+const longestInteriorGap = (profile: Uint32Array, noise: number) => {
+  let first = -1;
+  let last = -1;
+  profile.forEach((v, i) => {
+    if (v <= noise) return;
+    if (first < 0) first = i;
+    last = i;
+  });
+  let longest = 0;
+  let run = 0;
+  for (let i = first + 1; i < last; i++) {
+    run = profile[i] <= noise ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+};
+
+/**
+ * Satır aralığı harf aralığından geniştir: sütunlar arasındaki en geniş boşluk satırlar
+ * arasındakinden büyükse yazı dikey kabul edilir. Çok uzun ya da çok yatık kesitlerde
+ * en-boy oranı belirleyicidir.
+ */
+const detectVertical = (ink: Uint8Array, w: number, h: number) => {
+  const aspect = h / w;
+  if (aspect >= 2) return true;
+  if (aspect <= 0.5) return false;
+
+  const rows = new Uint32Array(h);
+  const cols = new Uint32Array(w);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!ink[y * w + x]) continue;
+      rows[y]++;
+      cols[x]++;
+    }
+  }
+  const rowGap = longestInteriorGap(rows, w * 0.01);
+  const colGap = longestInteriorGap(cols, h * 0.01);
+  return colGap === rowGap ? aspect > 1 : colGap > rowGap;
+};
+
+// İzdüşüm profili yöntemi: satırlar (dikeyde sütunlar) hizalandığında profil en keskin halini alır
+const estimateSkew = (ink: Uint8Array, w: number, h: number, vertical: boolean) => {
+  const points: number[] = [];
+  let total = 0;
+  ink.forEach(v => { total += v; });
+  if (total === 0) return 0;
+  const step = Math.max(1, Math.ceil(total / SKEW_SAMPLES));
+  let seen = 0;
+  for (let i = 0; i < ink.length; i++) {
+    if (!ink[i]) continue;
+    if (seen++ % step === 0) points.push(i % w, Math.floor(i / w));
+  }
+
+  const size = w + h;
+  const bins = new Float64Array(size * 2);
+  let best = 0;
+  let bestScore = -1;
+  for (let deg = -MAX_SKEW; deg <= MAX_SKEW; deg += SKEW_STEP) {
+    const rad = deg * Math.PI / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    bins.fill(0);
+    for (let p = 0; p < points.length; p += 2) {
+      const x = points[p];
+      const y = points[p + 1];
+      const projected = vertical ? x * cos - y * sin : y * cos - x * sin;
+      bins[Math.round(projected) + size]++;
+    }
+    let score = 0;
+    bins.forEach(v => { score += v * v; });
+    // Eşit puanda sıfıra yakın açı tercih edilir
+    if (score > bestScore || (score === bestScore && Math.abs(deg) < Math.abs(best))) {
+      bestScore = score;
+      best = deg;
+    }
+  }
+  return best;
+};
+
+/**
+ * Kesiti OCR için hazırlar: büyütme, gri ton, gerekirse ters çevirme, uyarlamalı eşikleme,
+ * eğiklik düzeltme ve kenar payı. Ön işleme kapalıyken de yazı yönü algılanır; dikey
+ * model seçimi buna bağlıdır.
+ */
+export const preprocessForOcr = (
+  source: HTMLCanvasElement,
+  options: OcrPreprocessOptions,
+  allowVertical: boolean
+): PreprocessResult => {
+  const scale = options.enabled ? resolveScale(source.width, source.height, options.upscale) : 1;
+  const w = Math.max(1, Math.round(source.width * scale));
+  const h = Math.max(1, Math.round(source.height * scale));
+
+  const scaled = document.createElement('canvas');
+  scaled.width = w;
+  scaled.height = h;
+  const ctx = scaled.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const imageData = ctx.getImageData(0, 0, w, h);
+  const gray = toGray(imageData.data, w * h);
+  const inverted = options.enabled && (options.invert === 'always' || (options.invert === 'auto' && borderMean(gray, w, h) < DARK_BACKGROUND_LUMA));
+  if (inverted) gray.forEach((v, i) => { gray[i] = 255 - v; });
+  const ink = adaptiveInkMask(gray, w, h);
+
+  const vertical = allowVertical && options.vertical !== 'never' && (options.vertical === 'always' || detectVertical(ink, w, h));
+  if (!options.enabled) return { canvas: source, scale, inverted, vertical, rotation: 0 };
+
+  for (let i = 0; i < w * h; i++) {
+    const v = options.binarize ? (ink[i] ? 0 : 255) : gray[i];
+    imageData.data[i * 4] = imageData.data[i * 4 + 1] = imageData.data[i * 4 + 2] = v;
+    imageData.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  // Yatay yazıda bulunan eğim geri döndürülür; dikeyde sütun ekseni ters yönde ölçülür
+  const skew = options.deskew ? estimateSkew(ink, w, h, vertical) : 0;
+  const rotation = vertical ? skew : -skew;
+  const rad = rotation * Math.PI / 180;
+  const rotatedW = Math.ceil(w * Math.abs(Math.cos(rad)) + h * Math.abs(Math.sin(rad)));
+  const rotatedH = Math.ceil(w * Math.abs(Math.sin(rad)) + h * Math.abs(Math.cos(rad)));
+  const pad = Math.max(0, options.padding);
+
+  const output = document.createElement('canvas');
+  output.width = rotatedW + pad * 2;
+  output.height = rotatedH + pad * 2;
+  const out = output.getContext('2d')!;
+  out.fillStyle = '#ffffff';
+  out.fillRect(0, 0, output.width, output.height);
+  out.translate(output.width / 2, output.height / 2);
+  out.rotate(rad);
+  out.drawImage(scaled, -w / 2, -h / 2);
+
+  return { canvas: output, scale, inverted, vertical, rotation };
+};
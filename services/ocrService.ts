@@ -0,0 +1,191 @@
+
+import { PSM } from 'tesseract.js';
+import { MergedImage, OcrEngine, OcrEngineConfig, OcrEngineId, TextRegion } from '../types';
+import { geminiOcrEngine } from './geminiService';
+import { regionToPixels } from './imageUtils';
+import { renderStripRect } from './stripTiles';
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessForOcr } from './ocrPreprocess';
+import { TESSERACT_POOL_SIZE, releaseUnusedPools, withTesseractWorker } from './tesseractPool';
+import { backoffDelay, errorMessage, isRetryableError, sleep } from './translationErrors';
+
+// Kaynak dil adından Tesseract dil verisi koduna
+const TESSERACT_LANG_CODES: Record<string, string> = {
+  'Korean': 'kor',
+  'English': 'eng',
+  'Japanese': 'jpn',
+  'Chinese': 'chi_sim',
+  'Turkish': 'tur',
+  'French': 'fra',
+  'German': 'deu',
+  'Spanish': 'spa'
+};
+
+// Dikey yazılan dillerin dikey modelleri (tek blok dikey sayfa düzeniyle kullanılır)
+const TESSERACT_VERTICAL_CODES: Record<string, string> = {
+  'Korean': 'kor_vert',
+  'Japanese': 'jpn_vert',
+  'Chinese': 'chi_sim_vert'
+};
+
+// Bu değerin altındaki okumalar editörde uyarı olarak işaretlenir
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const tesseractLangCode = (sourceLang: string) => {
+  const code = TESSERACT_LANG_CODES[sourceLang];
+  if (!code) throw new Error(`Tesseract "${sourceLang}" dilini desteklemiyor.`);
+  return code;
+};
+
+export const supportsVerticalText = (sourceLang: string) => Boolean(TESSERACT_VERTICAL_CODES[sourceLang]);
+
+export const tesseractEngine: OcrEngine = {
+  id: 'tesseract',
+  name: 'Tesseract (yerel)',
+  defaultModel: '',
+  suggestedModels: [],
+  requiresApiKey: false,
+  preprocessByDefault: true,
+  createSession: async (sourceLang) => {
+    const langCode = tesseractLangCode(sourceLang);
+    const verticalCode = TESSERACT_VERTICAL_CODES[sourceLang];
+    releaseUnusedPools([langCode, verticalCode].filter(Boolean));
+    // İlk işçi burada açılır ki dil verisi hatası kutular işlenmeden ortaya çıksın.
+    // Dikey model yalnızca dikey bir kutuyla karşılaşılınca yüklenir.
+    await withTesseractWorker(langCode, async () => {});
+
+    return {
+      concurrency: TESSERACT_POOL_SIZE,
+      recognize: async (canvas, { vertical }) => {
+        const useVertical = vertical && Boolean(verticalCode);
+        const { data } = await withTesseractWorker(
+          useVertical ? verticalCode : langCode,
+          worker => worker.recognize(canvas),
+          useVertical ? { tessedit_pageseg_mode: PSM.SINGLE_BLOCK_VERT_TEXT } : undefined
+        );
+        // Dikey modelde satır sonları sütun sonlarıdır; Korece dışındaki CJK metinde boşluk gerekmez
+        const text = useVertical
+          ? data.text.trim().replace(/\s+/g, sourceLang === 'Korean' ? ' ' : '')
+          : data.text.trim();
+        return { text, confidence: data.confidence / 100 };
+      },
+      // İşçiler havuzda kalır; bir sonraki çalıştırmada dil verisi yeniden yüklenmez
+      terminate: async () => {}
+    };
+  }
+};
+
+export const OCR_ENGINES: OcrEngine[] = [
+  tesseractEngine,
+  geminiOcrEngine
+];
+
+export const DEFAULT_OCR_CONFIG: OcrEngineConfig = {
+  engineId: 'tesseract',
+  model: '',
+  preprocess: DEFAULT_PREPROCESS_OPTIONS
+};
+
+export const getOcrEngine = (id: OcrEngineId) =>
+  OCR_ENGINES.find(e => e.id === id) || tesseractEngine;
+
+export const isLowConfidence = (region: TextRegion) =>
+  region.ocrConfidence !== undefined && region.ocrConfidence < LOW_CONFIDENCE_THRESHOLD;
+
+// Kutunun motora gidecek halini üretir; editördeki hata ayıklama görünümü de bunu kullanır
+export const preprocessRegion = async (strip: MergedImage, region: TextRegion, sourceLang: string, config: OcrEngineConfig) => {
+  // Kutu sayfa sınırını aşıyorsa iki sayfadan birleştirilerek kesilir
+  const canvas = await renderStripRect(strip, regionToPixels(region, strip.width, strip.height));
+  return preprocessForOcr(canvas, config.preprocess, supportsVerticalText(sourceLang));
+};
+
+export interface OcrRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (status: string) => void;
+  maxRetries?: number;
+}
+
+export interface FailedOcrRegion {
+  id: string;
+  error: string;
+}
+
+export interface OcrRunResult {
+  regions: TextRegion[];
+  failed: FailedOcrRegion[];
+  cancelled: boolean;
+}
+
+const OCR_MAX_RETRIES = 3;
+
+// Geçersiz anahtar, yetki, bilinmeyen model gibi HTTP hataları her kutuda tekrarlanır
+const isPermanentApiError = (err: unknown) =>
+  typeof (err as { status?: unknown } | null)?.status === 'number' && !isRetryableError(err);
+
+/**
+ * Kutuları motorun izin verdiği kadar paralel okur ve metni, motoru ve güveni yazılmış
+ * kopyalarını döndürür. Kutular yerinde değiştirilmez; geçmişteki önceki hal bozulmasın.
+ * İptal edilince yeni kutu alınmaz, o ana kadar okunanlar döner. Geçici hatalar (hız sınırı,
+ * ağ, 5xx) kutu başına geri çekilmeyle yeniden denenir; yine okunamayan kutu başarısız sayılır ve
+ * diğerleri okunmaya devam eder. Kalıcı bir API hatası (örn. geçersiz anahtar) henüz okunmamış
+ * tüm kutuları başarısız sayar.
+ */
+export const recognizeRegions = async (
+  strip: MergedImage,
+  regions: TextRegion[],
+  sourceLang: string,
+  config: OcrEngineConfig & { apiKey?: string },
+  { signal, onProgress, maxRetries = OCR_MAX_RETRIES }: OcrRunOptions = {}
+): Promise<OcrRunResult> => {
+  const engine = getOcrEngine(config.engineId);
+  onProgress?.(`${engine.name} hazırlanıyor...`);
+  const session = await engine.createSession(sourceLang, { ...config, model: config.model || engine.defaultModel });
+
+  const sorted = [...regions].sort((a, b) => a.order - b.order);
+  const result: TextRegion[] = [];
+  const failed: FailedOcrRegion[] = [];
+  let next = 0;
+  let stopped = false;
+  const report = () => onProgress?.(`${engine.name} ile okunuyor: ${result.length}/${sorted.length} kutu`);
+
+  const recognize = async (region: TextRegion) => {
+    const processed = await preprocessRegion(strip, region, sourceLang, config);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await session.recognize(processed.canvas, { vertical: processed.vertical });
+      } catch (err) {
+        if (!isRetryableError(err) || attempt >= maxRetries || signal?.aborted) throw err;
+        const delay = backoffDelay(attempt, err);
+        onProgress?.(`Geçici hata, ${Math.ceil(delay / 1000)} sn sonra tekrar denenecek (${attempt + 1}/${maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < sorted.length && !signal?.aborted && !stopped) {
+      const region = sorted[next++];
+      try {
+        const { text, confidence } = await recognize(region);
+        result.push({ ...region, originalText: text, ocrEngine: engine.id, ocrConfidence: confidence });
+        report();
+      } catch (err) {
+        console.error(`${engine.name} OCR error:`, err);
+        failed.push({ id: region.id, error: errorMessage(err) });
+        if (isPermanentApiError(err) && !stopped) {
+          // Kalan kutular da aynı hatayla düşeceğinden boşuna istek gönderilmez
+          stopped = true;
+          failed.push(...sorted.slice(next).map(r => ({ id: r.id, error: errorMessage(err) })));
+          next = sorted.length;
+        }
+      }
+    }
+  };
+
+  try {
+    report();
+    await Promise.all(Array.from({ length: Math.min(session.concurrency, sorted.length) }, lane));
+  } finally {
+    await session.terminate();
+  }
+  return { regions: result, failed, cancelled: result.length + failed.length < sorted.length };
+};
@@ -0,0 +1,56 @@
+
+import { TranslationProvider } from '../types';
+import { buildTranslationPrompt, collectItemImages, parseTranslationResponse } from './translationPrompt';
+import { TranslationRequestError, parseRetryAfter, withNetworkErrors } from './translationErrors';
+
+// OpenAI Chat Completions API'si ile uyumlu herhangi bir sunucu (vLLM, llama.cpp, Ollama, LM Studio vb.)
+export const openAiCompatibleProvider: TranslationProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI Uyumlu (HTTP)',
+  defaultModel: 'gpt-4o-mini',
+  suggestedModels: ['gpt-4o-mini', 'gpt-4o', 'qwen2.5:14b', 'llama3.1:8b'],
+  requiresApiKey: false,
+  requiresBaseUrl: true,
+  supportsImages: true,
+  translate: async (request, config) => {
+    const baseUrl = (config.baseUrl || 'http://localhost:8000/v1').replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const images = collectItemImages(request);
+    // Görsel yoksa düz metin gönderilir; bazı yerel sunucular içerik dizisini desteklemez
+    const userContent = images.length === 0
+      ? buildTranslationPrompt(request)
+      : [
+          { type: 'text', text: buildTranslationPrompt(request) },
+          ...images.flatMap(image => [
+            { type: 'text', text: `Image for id ${image.id}:` },
+            { type: 'image_url', image_url: { url: image.dataUrl } }
+          ])
+        ];
+
+    const response = await withNetworkErrors(fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model || openAiCompatibleProvider.defaultModel,
+        temperature: 0.3,
+        messages: [
+          { role: 'system', content: 'You translate comics and always answer with raw JSON only.' },
+          { role: 'user', content: userContent }
+        ]
+      })
+    }));
+
+    if (!response.ok) {
+      throw new TranslationRequestError(
+        `Sunucu hatası (${response.status}): ${await response.text()}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    const data = await response.json();
+    return parseTranslationResponse(data?.choices?.[0]?.message?.content || '[]');
+  }
+};
@@ -0,0 +1,142 @@
+
+import { WebtoonImage } from '../types';
+import { loadImage } from './imageUtils';
+import { crc32, readZipArchive } from './zipArchive';
+
+// İçe aktarılacak bir dosya ve klasör/arşiv içindeki yolu; sayfa sırası yola göre belirlenir
+export interface ImportSource {
+  file: File;
+  path: string;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  avif: 'image/avif'
+};
+const ARCHIVE_EXTENSIONS = ['zip', 'cbz'];
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// İşletim sistemlerinin bıraktığı yardımcı dosyalar sessizce atlanır
+const isSystemFile = (path: string) =>
+  path.split('/').some(part => part.startsWith('.') || part === '__MACOSX') || /^thumbs\.db$/i.test(baseName(path));
+
+const isImage = (source: ImportSource) => source.file.type.startsWith('image/') || !!IMAGE_TYPES[extensionOf(source.path)];
+const isArchive = (source: ImportSource) => ARCHIVE_EXTENSIONS.includes(extensionOf(source.path));
+
+// "2.jpg" "10.jpg"dan önce gelir; büyük/küçük harf ayrımı yapılmaz
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+export const naturalCompare = (a: string, b: string) => collator.compare(a, b);
+
+export const sourcesFromFileList = (files: FileList): ImportSource[] =>
+  Array.from(files as ArrayLike<File>).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+const readDirectory = (reader: FileSystemDirectoryReader) => new Promise<FileSystemEntry[]>((resolve, reject) =>
+  reader.readEntries(resolve, reject)
+);
+
+const collectEntry = async (entry: FileSystemEntry, sources: ImportSource[]) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    sources.push({ file, path: entry.fullPath.replace(/^\//, '') });
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries her çağrıda yalnızca bir grup döndürür; boş dönene kadar okunur
+  for (let batch = await readDirectory(reader); batch.length > 0; batch = await readDirectory(reader)) {
+    for (const child of batch) await collectEntry(child, sources);
+  }
+};
+
+/**
+ * Sürükle-bırakla gelen dosya ve klasörleri toplar. Girdiler olay işleyicisi bitmeden
+ * alınmalıdır; tarayıcı DataTransfer'ı sonrasında boşaltır.
+ */
+export const collectDroppedSources = async (dataTransfer: DataTransfer): Promise<ImportSource[]> => {
+  const entries = Array.from(dataTransfer.items as ArrayLike<DataTransferItem>)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  // Klasör girdisi desteklenmiyorsa düz dosya listesine dönülür
+  if (entries.some(entry => !entry)) return sourcesFromFileList(dataTransfer.files);
+  const sources: ImportSource[] = [];
+  for (const entry of entries) await collectEntry(entry!, sources);
+  return sources;
+};
+
+/**
+ * Arşivleri açar, görsel olmayan dosyaları ayıklar ve sayfaları yola göre doğal sırayla dizer.
+ * Birden fazla arşiv veya klasör bırakılırsa her biri kendi adının sırasında kalır.
+ */
+export const expandSources = async (sources: ImportSource[], onProgress?: (status: string) => void) => {
+  const pages: ImportSource[] = [];
+  const skipped: string[] = [];
+  for (const source of sources) {
+    if (isSystemFile(source.path)) continue;
+    if (isImage(source)) {
+      pages.push(source);
+      continue;
+    }
+    if (!isArchive(source)) {
+      skipped.push(source.path);
+      continue;
+    }
+    onProgress?.(`Arşiv açılıyor: ${source.path}`);
+    const entries = await readZipArchive(source.file);
+    for (const entry of entries) {
+      const path = `${source.path}/${entry.name}`;
+      if (isSystemFile(entry.name)) continue;
+      const type = IMAGE_TYPES[extensionOf(entry.name)];
+      if (!type) {
+        skipped.push(path);
+        continue;
+      }
+      const blob = await entry.read();
+      pages.push({ file: new File([blob], baseName(entry.name), { type }), path });
+    }
+  }
+  pages.sort((a, b) => naturalCompare(a.path, b.path));
+  return { pages, skipped };
+};
+
+export const createPageImage = async (file: File): Promise<WebtoonImage> => {
+  const previewUrl = URL.createObjectURL(file);
+  const img = await loadImage(previewUrl);
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    file,
+    previewUrl,
+    regions: [],
+    isProcessing: false,
+    status: 'idle',
+    width: img.naturalWidth,
+    height: img.naturalHeight
+  };
+};
+
+// Aynı içerikli sayfaları bulmak için dosya özeti; güvenli olmayan bağlamda CRC32'ye düşülür
+export const pageFingerprint = async (blob: Blob) => {
+  const bytes = await blob.arrayBuffer();
+  if (!crypto.subtle) return `${blob.size}:${crc32(new Uint8Array(bytes)).toString(16)}`;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Kopya sayfanın id'sinden ilk örneğinin id'sine eşleme
+export const findDuplicatePages = (images: WebtoonImage[], fingerprints: Record<string, string>) => {
+  const firstByHash = new Map<string, string>();
+  const duplicates: Record<string, string> = {};
+  images.forEach(img => {
+    const hash = fingerprints[img.id];
+    if (!hash) return;
+    const first = firstByHash.get(hash);
+    if (first) duplicates[img.id] = first;
+    else firstByHash.set(hash, img.id);
+  });
+  return duplicates;
+};
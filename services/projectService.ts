@@ -0,0 +1,231 @@
+
+import { WebtoonImage, MergedImage, StripTile, TextRegion, ProjectSettings, AppMode, CustomFont } from '../types';
+import { STORES, idbGet, idbPut, idbDelete } from './indexedDb';
+import { blobToDataUrl, dataUrlToBlob, downloadBlob } from './fileUtils';
+import { loadImage } from './imageUtils';
+import { upgradeLegacyRegion } from './regionTranslations';
+
+// v1: birleştirilmiş şerit tek bir JPEG data URL olarak saklanıyordu
+// v2: şerit, sayfalara referans veren parçalar (tile) olarak saklanır
+// v3: kutu çevirileri hedef dile göre saklanır
+export const PROJECT_FILE_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.wtproj';
+const AUTOSAVE_KEY = 'last-session';
+
+// ObjectURL oturuma özeldir, saklanmaz; açılışta Blob'dan yeniden üretilir
+type StoredTile = Omit<StripTile, 'url'>;
+
+interface StoredMergedImage extends Omit<MergedImage, 'tiles'> {
+  tiles: StoredTile[];
+}
+
+interface LegacyMergedImage {
+  url: string;
+  regions: TextRegion[];
+  width?: number;
+  height?: number;
+}
+
+// Bellekte ve IndexedDB'de tutulan proje görüntüsü (sayfalar Blob olarak saklanır)
+export interface ProjectSnapshot {
+  version: number;
+  savedAt: number;
+  mode: AppMode;
+  settings: ProjectSettings;
+  pages: {
+    id: string;
+    name: string;
+    blob: Blob;
+    width?: number;
+    height?: number;
+  }[];
+  merged: StoredMergedImage | null;
+  fonts?: CustomFont[];
+}
+
+// İndirilebilir proje dosyası (sayfalar data URL olarak gömülür). Bir sayfaya karşılık gelen
+// parçanın görseli tekrar gömülmez, açılışta `pageId` ile sayfadan alınır.
+interface ProjectFile extends Omit<ProjectSnapshot, 'pages' | 'fonts' | 'merged'> {
+  pages: (Omit<ProjectSnapshot['pages'][number], 'blob'> & { dataUrl: string })[];
+  merged: (Omit<StoredMergedImage, 'tiles'> & { tiles: (Omit<StoredTile, 'blob'> & { dataUrl?: string })[] }) | LegacyMergedImage | null;
+  fonts?: { family: string, dataUrl: string }[];
+}
+
+const isLegacyMerged = (merged: unknown): merged is LegacyMergedImage =>
+  !!merged && typeof (merged as LegacyMergedImage).url === 'string' && !('tiles' in (merged as object));
+
+// v1 kayıtlarındaki tek parça şerit, sayfaya bağlı olmayan tek bir parçaya dönüştürülür
+const upgradeLegacyMerged = async (merged: LegacyMergedImage): Promise<StoredMergedImage> => {
+  const blob = await dataUrlToBlob(merged.url);
+  let { width, height } = merged;
+  // Eski kayıtlarda birleştirilmiş görselin boyutu tutulmuyordu
+  if (!width || !height) {
+    const img = await loadImage(merged.url);
+    width = img.width;
+    height = img.height;
+  }
+  return {
+    regions: merged.regions,
+    width,
+    height,
+    tiles: [{ pageId: 'merged', blob, y: 0, width, height }]
+  };
+};
+
+const upgradeRegions = (merged: StoredMergedImage | null, targetLang: string) => merged && {
+  ...merged,
+  regions: merged.regions.map(r => upgradeLegacyRegion(r, targetLang))
+};
+
+const upgradeSnapshot = async (snapshot: ProjectSnapshot): Promise<ProjectSnapshot> => ({
+  ...snapshot,
+  version: PROJECT_FILE_VERSION,
+  merged: upgradeRegions(
+    isLegacyMerged(snapshot.merged) ? await upgradeLegacyMerged(snapshot.merged) : snapshot.merged,
+    snapshot.settings.targetLang
+  )
+});
+
+export interface RestoredProject {
+  mode: AppMode;
+  settings: ProjectSettings;
+  images: WebtoonImage[];
+  mergedImage: MergedImage | null;
+  fonts: CustomFont[];
+}
+
+export const createSnapshot = (
+  images: WebtoonImage[],
+  mergedImage: MergedImage | null,
+  settings: ProjectSettings,
+  mode: AppMode,
+  fonts: CustomFont[]
+): ProjectSnapshot => ({
+  version: PROJECT_FILE_VERSION,
+  savedAt: Date.now(),
+  mode,
+  settings,
+  pages: images.map(img => ({
+    id: img.id,
+    name: img.file.name,
+    blob: img.file,
+    width: img.width,
+    height: img.height
+  })),
+  merged: mergedImage && {
+    ...mergedImage,
+    tiles: mergedImage.tiles.map(({ url, ...tile }) => tile)
+  },
+  fonts
+});
+
+export const restoreSnapshot = (snapshot: ProjectSnapshot): RestoredProject => {
+  const images: WebtoonImage[] = snapshot.pages.map(page => {
+    const file = page.blob instanceof File
+      ? page.blob
+      : new File([page.blob], page.name, { type: page.blob.type });
+    return {
+      id: page.id,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      regions: [],
+      isProcessing: false,
+      status: 'idle' as const,
+      width: page.width,
+      height: page.height
+    };
+  });
+
+  // Sayfası hâlâ projede olan parçalar sayfanın ObjectURL'ini paylaşır
+  const mergedImage: MergedImage | null = snapshot.merged && {
+    ...snapshot.merged,
+    tiles: snapshot.merged.tiles.map(tile => ({
+      ...tile,
+      url: images.find(img => img.id === tile.pageId)?.previewUrl || URL.createObjectURL(tile.blob)
+    }))
+  };
+
+  return {
+    mode: snapshot.merged ? snapshot.mode : AppMode.UPLOAD,
+    settings: snapshot.settings,
+    images,
+    mergedImage,
+    fonts: snapshot.fonts || []
+  };
+};
+
+export const downloadProject = async (snapshot: ProjectSnapshot) => {
+  const pageIds = new Set(snapshot.pages.map(p => p.id));
+  const file: ProjectFile = {
+    ...snapshot,
+    pages: await Promise.all(snapshot.pages.map(async ({ blob, ...page }) => ({
+      ...page,
+      dataUrl: await blobToDataUrl(blob)
+    }))),
+    merged: snapshot.merged && {
+      ...snapshot.merged,
+      tiles: await Promise.all(snapshot.merged.tiles.map(async ({ blob, ...tile }) =>
+        pageIds.has(tile.pageId) ? tile : { ...tile, dataUrl: await blobToDataUrl(blob) }
+      ))
+    },
+    fonts: await Promise.all((snapshot.fonts || []).map(async ({ family, blob }) => ({
+      family,
+      dataUrl: await blobToDataUrl(blob)
+    })))
+  };
+
+  downloadBlob(
+    new Blob([JSON.stringify(file)], { type: 'application/json' }),
+    `webtoon_project_${Date.now()}${PROJECT_FILE_EXTENSION}`
+  );
+};
+
+export const readProjectFile = async (file: File): Promise<ProjectSnapshot> => {
+  const parsed = JSON.parse(await file.text()) as ProjectFile;
+  if (!parsed || typeof parsed.version !== 'number' || !Array.isArray(parsed.pages)) {
+    throw new Error('Geçersiz proje dosyası.');
+  }
+  if (parsed.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Bu proje dosyası daha yeni bir sürümle kaydedilmiş (v${parsed.version}).`);
+  }
+
+  const pages = await Promise.all(parsed.pages.map(async ({ dataUrl, ...page }) => ({
+    ...page,
+    blob: await dataUrlToBlob(dataUrl)
+  })));
+
+  let merged: StoredMergedImage | null = null;
+  if (isLegacyMerged(parsed.merged)) {
+    merged = await upgradeLegacyMerged(parsed.merged);
+  } else if (parsed.merged) {
+    merged = {
+      ...parsed.merged,
+      tiles: await Promise.all(parsed.merged.tiles.map(async ({ dataUrl, ...tile }) => {
+        const page = pages.find(p => p.id === tile.pageId);
+        if (dataUrl) return { ...tile, blob: await dataUrlToBlob(dataUrl) };
+        if (!page) throw new Error('Proje dosyası eksik: şeridin bir sayfası bulunamadı.');
+        return { ...tile, blob: page.blob };
+      }))
+    };
+  }
+
+  return {
+    ...parsed,
+    version: PROJECT_FILE_VERSION,
+    pages,
+    merged: upgradeRegions(merged, parsed.settings.targetLang),
+    fonts: await Promise.all((parsed.fonts || []).map(async ({ family, dataUrl }) => ({
+      family,
+      blob: await dataUrlToBlob(dataUrl)
+    })))
+  };
+};
+
+export const saveAutosave = (snapshot: ProjectSnapshot) => idbPut(STORES.AUTOSAVE, AUTOSAVE_KEY, snapshot);
+
+export const loadAutosave = async () => {
+  const snapshot = await idbGet<ProjectSnapshot>(STORES.AUTOSAVE, AUTOSAVE_KEY);
+  return snapshot ? upgradeSnapshot(snapshot) : snapshot;
+};
+
+export const clearAutosave = () => idbDelete(STORES.AUTOSAVE, AUTOSAVE_KEY);
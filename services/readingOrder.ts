@@ -0,0 +1,214 @@
+
+import { MergedImage, ReadingDirection, ReadingOrderOptions, TextRegion } from '../types';
+import { regionToPixels } from './imageUtils';
+import { PixelRect, renderStripRect } from './stripTiles';
+
+export const READING_DIRECTIONS: { id: ReadingDirection, name: string, icon: string, description: string }[] = [
+  { id: 'webtoon', name: 'Webtoon', icon: 'fa-arrow-down', description: 'Yukarıdan aşağıya; yan yana balonlar soldan sağa' },
+  { id: 'manga', name: 'Manga', icon: 'fa-arrow-left', description: 'Paneller ve balonlar sağdan sola, sonra yukarıdan aşağıya' },
+  { id: 'western', name: 'Batı', icon: 'fa-arrow-right', description: 'Paneller ve balonlar soldan sağa, sonra yukarıdan aşağıya' }
+];
+
+export const DEFAULT_READING_ORDER: ReadingOrderOptions = { direction: 'webtoon', auto: true };
+
+// Panel analizi için sayfalar bu genişliğe küçültülür ve bu yükseklikte bantlarla çizilir
+const ANALYSIS_WIDTH = 240;
+const ANALYSIS_BAND_ROWS = 4000;
+// Bir satır/sütunun boşluk (gutter) sayılması için en açık ve en koyu pikseli arasındaki en fazla fark
+const GUTTER_TOLERANCE = 12;
+// Analiz ölçeğinde piksel: daha ince boşluklar panel sınırı, daha ince içerikler panel sayılmaz
+const MIN_GUTTER = 2;
+const MIN_PANEL = 6;
+const MAX_CUT_DEPTH = 6;
+// İki kutunun aynı satırda sayılması için dikey örtüşmenin küçük kutunun yüksekliğine oranı
+const ROW_OVERLAP_RATIO = 0.5;
+
+// Küçültülmüş gri tonlu sayfa; saydam pikseller -1'dir
+export interface GrayMap {
+  width: number;
+  height: number;
+  data: Int16Array;
+}
+
+type Span = [number, number];
+
+const lineSpread = (map: GrayMap, rect: PixelRect, index: number, horizontal: boolean) => {
+  let min = 255, max = 0;
+  const length = horizontal ? rect.w : rect.h;
+  for (let k = 0; k < length; k++) {
+    const x = horizontal ? rect.x + k : rect.x + index;
+    const y = horizontal ? rect.y + index : rect.y + k;
+    const v = map.data[y * map.width + x];
+    if (v < 0) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return max < min ? 0 : max - min;
+};
+
+// Boşluk satırları/sütunlarıyla ayrılan içerik aralıklarını döndürür (rect'e göre)
+const contentSpans = (map: GrayMap, rect: PixelRect, horizontal: boolean): Span[] => {
+  const length = horizontal ? rect.h : rect.w;
+  const spans: Span[] = [];
+  let start = -1;
+  let gap = 0;
+  for (let i = 0; i < length; i++) {
+    const gutter = lineSpread(map, rect, i, horizontal) <= GUTTER_TOLERANCE;
+    if (!gutter) {
+      if (start < 0) start = i;
+      gap = 0;
+      continue;
+    }
+    if (start < 0) continue;
+    gap++;
+    // Kısa boşluklar (harf araları, ince çizgiler) paneli bölmez
+    if (gap >= MIN_GUTTER) {
+      spans.push([start, i - gap + 1]);
+      start = -1;
+      gap = 0;
+    }
+  }
+  if (start >= 0) spans.push([start, length - gap]);
+  return spans.filter(([a, b]) => b - a >= MIN_PANEL);
+};
+
+/**
+ * Özyinelemeli XY kesimi: önce yatay boşluklarla bantlara, sonra dikey boşluklarla sütunlara
+ * bölünür. Sütunlar okuma yönüne göre sıralanır; sonuç okuma sırasındaki panellerdir.
+ */
+export const cutPanels = (map: GrayMap, rect: PixelRect, direction: ReadingDirection, depth = 0): PixelRect[] => {
+  const rows = contentSpans(map, rect, true);
+  if (rows.length === 0) return [];
+  if (rows.length > 1 && depth < MAX_CUT_DEPTH) {
+    return rows.flatMap(([a, b]) => cutPanels(map, { x: rect.x, y: rect.y + a, w: rect.w, h: b - a }, direction, depth + 1));
+  }
+  const band = { x: rect.x, y: rect.y + rows[0][0], w: rect.w, h: rows[0][1] - rows[0][0] };
+  // Webtoon'da yan yana paneller nadirdir; bant içindeki sıra balonların konumundan çıkarılır
+  if (direction === 'webtoon' || depth >= MAX_CUT_DEPTH) return [band];
+
+  const columns = contentSpans(map, band, false);
+  if (columns.length <= 1) {
+    return columns.length === 1 ? [{ ...band, x: band.x + columns[0][0], w: columns[0][1] - columns[0][0] }] : [band];
+  }
+  if (direction === 'manga') columns.reverse();
+  return columns.flatMap(([a, b]) => cutPanels(map, { x: band.x + a, y: band.y, w: b - a, h: band.h }, direction, depth + 1));
+};
+
+const renderGrayMap = async (strip: MergedImage, rect: PixelRect, scale: number): Promise<GrayMap> => {
+  const width = Math.max(1, Math.round(rect.w * scale));
+  const height = Math.max(1, Math.round(rect.h * scale));
+  const data = new Int16Array(width * height);
+  for (let row = 0; row < height; row += ANALYSIS_BAND_ROWS) {
+    const rows = Math.min(ANALYSIS_BAND_ROWS, height - row);
+    const canvas = await renderStripRect(strip, { x: rect.x, y: rect.y + row / scale, w: rect.w, h: rows / scale }, scale);
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, width, rows).data;
+    for (let i = 0; i < width * rows; i++) {
+      const p = i * 4;
+      data[row * width + i] = pixels[p + 3] === 0 ? -1 : Math.round((pixels[p] * 299 + pixels[p + 1] * 587 + pixels[p + 2] * 114) / 1000);
+    }
+  }
+  return { width, height, data };
+};
+
+// Sayfalar her zaman ayrı panel gruplarıdır; her sayfa kendi içinde kesilir
+export const pagePanels = (strip: Pick<MergedImage, 'tiles'>): PixelRect[] =>
+  strip.tiles.map(tile => ({ x: 0, y: tile.y, w: tile.width, h: tile.height }));
+
+/**
+ * Şeritteki panelleri okuma sırasıyla bulur (şerit piksel koordinatlarında). Panel bulunamayan
+ * sayfa tek panel sayılır.
+ */
+export const detectPanels = async (strip: MergedImage, direction: ReadingDirection, onProgress?: (status: string) => void) => {
+  const panels: PixelRect[] = [];
+  const pages = pagePanels(strip);
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    onProgress?.(`Paneller aranıyor: ${i + 1}/${pages.length}`);
+    const scale = Math.min(1, ANALYSIS_WIDTH / page.w);
+    const map = await renderGrayMap(strip, page, scale);
+    const found = cutPanels(map, { x: 0, y: 0, w: map.width, h: map.height }, direction);
+    if (found.length === 0) {
+      panels.push(page);
+      continue;
+    }
+    found.forEach(p => panels.push({ x: page.x + p.x / scale, y: page.y + p.y / scale, w: p.w / scale, h: p.h / scale }));
+  }
+  return panels;
+};
+
+const distanceToRect = (x: number, y: number, r: PixelRect) =>
+  Math.hypot(Math.max(r.x - x, 0, x - r.x - r.w), Math.max(r.y - y, 0, y - r.y - r.h));
+
+type PlacedRegion = { region: TextRegion, rect: PixelRect };
+
+// Dikeyde örtüşen kutular aynı satırda toplanır; satırlar yukarıdan aşağıya sıralanır
+const groupRows = (items: PlacedRegion[]) => {
+  const rows: { top: number, bottom: number, items: PlacedRegion[] }[] = [];
+  [...items].sort((a, b) => a.rect.y - b.rect.y).forEach(item => {
+    const row = rows.find(r => {
+      const overlap = Math.min(r.bottom, item.rect.y + item.rect.h) - Math.max(r.top, item.rect.y);
+      return overlap >= ROW_OVERLAP_RATIO * Math.min(item.rect.h, ...r.items.map(i => i.rect.h));
+    });
+    if (row) {
+      row.items.push(item);
+      row.top = Math.min(row.top, item.rect.y);
+      row.bottom = Math.max(row.bottom, item.rect.y + item.rect.h);
+    } else {
+      rows.push({ top: item.rect.y, bottom: item.rect.y + item.rect.h, items: [item] });
+    }
+  });
+  return rows.sort((a, b) => a.top - b.top);
+};
+
+/**
+ * Kutulara okuma sırasına göre yeni sıra numarası verir. Kutu merkezinin düştüğü panel (yoksa en
+ * yakın panel) önce gelir; panel içinde satır satır, satır içinde okuma yönünde sıralanır.
+ * Dizideki kutuların yeri değişmez, yalnızca `order` güncellenir.
+ */
+export const orderRegions = (
+  regions: TextRegion[],
+  direction: ReadingDirection,
+  panels: PixelRect[],
+  size: { width: number, height: number }
+): TextRegion[] => {
+  const byPanel = new Map<number, PlacedRegion[]>();
+  regions.forEach(region => {
+    const rect = regionToPixels(region, size.width, size.height);
+    const cx = rect.x + rect.w / 2;
+    const cy = rect.y + rect.h / 2;
+    let panel = panels.findIndex(p => cx >= p.x && cx <= p.x + p.w && cy >= p.y && cy <= p.y + p.h);
+    if (panel < 0 && panels.length > 0) {
+      const distances = panels.map(p => distanceToRect(cx, cy, p));
+      panel = distances.indexOf(Math.min(...distances));
+    }
+    if (!byPanel.has(panel)) byPanel.set(panel, []);
+    byPanel.get(panel)!.push({ region, rect });
+  });
+
+  const rightToLeft = direction === 'manga';
+  const ordered = [...byPanel.keys()].sort((a, b) => a - b).flatMap(panel =>
+    groupRows(byPanel.get(panel)!).flatMap(row =>
+      row.items.sort((a, b) => rightToLeft ? (b.rect.x + b.rect.w) - (a.rect.x + a.rect.w) : a.rect.x - b.rect.x)
+    )
+  );
+  const orders = new Map<string, number>(ordered.map((item, i) => [item.region.id, i + 1]));
+  return regions.map(r => r.order === orders.get(r.id) ? r : { ...r, order: orders.get(r.id)! });
+};
+
+// Sıra numaralarını mevcut sırayı koruyarak 1..n yapar (silme sonrası boşlukları kapatır)
+export const renumberRegions = (regions: TextRegion[]) => {
+  const orders = new Map<string, number>([...regions].sort((a, b) => a.order - b.order).map((r, i) => [r.id, i + 1]));
+  return regions.map(r => r.order === orders.get(r.id) ? r : { ...r, order: orders.get(r.id)! });
+};
+
+// Sürüklenen kutuyu hedef kutunun yerine taşır; aradaki kutular bir kayar
+export const moveRegionInOrder = (regions: TextRegion[], draggedId: string, targetId: string) => {
+  const sorted = [...regions].sort((a, b) => a.order - b.order);
+  const from = sorted.findIndex(r => r.id === draggedId);
+  const to = sorted.findIndex(r => r.id === targetId);
+  if (from < 0 || to < 0 || from === to) return regions;
+  const [dragged] = sorted.splice(from, 1);
+  sorted.splice(to, 0, dragged);
+  const orders = new Map<string, number>(sorted.map((r, i) => [r.id, i + 1]));
+  return regions.map(r => r.order === orders.get(r.id) ? r : { ...r, order: orders.get(r.id)! });
+};
@@ -0,0 +1,244 @@
+
+import { DetectionMethod, MergedImage, ProposedRegion, TextRegion } from '../types';
+import { renderStripRect } from './stripTiles';
+import { withTesseractWorker } from './tesseractPool';
+
+interface PixelBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface DetectionOptions {
+  method: DetectionMethod;
+  langCode: string;
+  // Kelime kutuları arasındaki boşluk, satır yüksekliğinin bu katından küçükse aynı balona aittir
+  mergeGap: number;
+  // Önerilen kutuların her yönde genişletileceği piksel miktarı
+  padding: number;
+  onProgress?: (status: string) => void;
+}
+
+export const DEFAULT_DETECTION_OPTIONS: Omit<DetectionOptions, 'langCode'> = {
+  method: 'both',
+  mergeGap: 1.2,
+  padding: 6
+};
+
+// Tesseract çok uzun şeritlerde yavaşlar ve bellek tüketir; şerit dilimler halinde okunur
+const SLICE_HEIGHT = 2000;
+const SLICE_OVERLAP = 120;
+// Balon analizi için şerit bu genişliğe küçültülür
+const BUBBLE_ANALYSIS_WIDTH = 360;
+// Küçültülmüş şerit de uzun bölümlerde canvas sınırını aşar; analiz bu yükseklikte bantlarla yapılır.
+// Bindirme payı bir balondan büyük olmalı ki kesilen balon komşu bantta bütün olarak bulunsun.
+const BUBBLE_BAND_HEIGHT = 3000;
+const BUBBLE_BAND_OVERLAP = 600;
+
+const boxesTouch = (a: PixelBox, b: PixelBox, gap: number) =>
+  a.x0 - gap <= b.x1 && b.x0 - gap <= a.x1 && a.y0 - gap <= b.y1 && b.y0 - gap <= a.y1;
+
+const unionBox = (a: PixelBox, b: PixelBox): PixelBox => ({
+  x0: Math.min(a.x0, b.x0),
+  y0: Math.min(a.y0, b.y0),
+  x1: Math.max(a.x1, b.x1),
+  y1: Math.max(a.y1, b.y1)
+});
+
+const overlapRatio = (a: PixelBox, b: PixelBox) => {
+  const w = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+  const h = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+  if (w <= 0 || h <= 0) return 0;
+  const smaller = Math.min((a.x1 - a.x0) * (a.y1 - a.y0), (b.x1 - b.x0) * (b.y1 - b.y0));
+  return smaller > 0 ? (w * h) / smaller : 0;
+};
+
+// Yakın kelime kutularını balon büyüklüğünde gruplar halinde birleştirir
+export const mergeWordBoxes = (words: PixelBox[], gapFactor: number): PixelBox[] => {
+  const sorted = [...words].sort((a, b) => a.y0 - b.y0);
+  const parent = sorted.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    const ha = a.y1 - a.y0;
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j];
+      const gap = Math.min(ha, b.y1 - b.y0) * gapFactor;
+      // y0'a göre sıralı olduğu için bu noktadan sonraki kutular da uzakta kalır
+      if (b.y0 - a.y1 > gap * 2) break;
+      if (boxesTouch(a, b, gap)) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, PixelBox>();
+  sorted.forEach((box, i) => {
+    const root = find(i);
+    groups.set(root, groups.has(root) ? unionBox(groups.get(root)!, box) : box);
+  });
+  return Array.from(groups.values());
+};
+
+const detectWordBoxes = async (strip: MergedImage, options: DetectionOptions): Promise<PixelBox[]> => {
+  const words: PixelBox[] = [];
+
+  // Kelime kutuları OCR ile aynı işçi havuzundan okunur; dil verisi yeniden yüklenmez
+  await withTesseractWorker(options.langCode, async worker => {
+    const sliceCount = Math.ceil(strip.height / (SLICE_HEIGHT - SLICE_OVERLAP));
+    for (let top = 0, i = 1; top < strip.height; top += SLICE_HEIGHT - SLICE_OVERLAP, i++) {
+      options.onProgress?.(`Metin aranıyor: Dilim ${Math.min(i, sliceCount)}/${sliceCount}`);
+      const h = Math.min(SLICE_HEIGHT, strip.height - top);
+      const canvas = await renderStripRect(strip, { x: 0, y: top, w: strip.width, h });
+
+      const { data } = await worker.recognize(canvas);
+      data.words
+        .filter(w => w.confidence > 40 && /[\p{L}\p{N}]/u.test(w.text))
+        .forEach(w => words.push({ x0: w.bbox.x0, y0: w.bbox.y0 + top, x1: w.bbox.x1, y1: w.bbox.y1 + top }));
+
+      if (top + h >= strip.height) break;
+    }
+  });
+
+  // Dilimlerin üst üste binen kısmında aynı kelime iki kez gelebilir
+  return words.filter((w, i) => !words.slice(0, i).some(o => overlapRatio(o, w) > 0.8));
+};
+
+// Parlak ve kapalı alanları (konuşma balonlarını) bağlı bileşen analiziyle bulur.
+// Kutular bandın küçültülmüş koordinatlarında döner; `cutTop`/`cutBottom` bandın komşu
+// bantla kesiştiği kenarlardır ve bu kenarlara değen alanlar yarım kaldığı için atlanır.
+const analyzeBubbleBand = (canvas: HTMLCanvasElement, cutTop: boolean, cutBottom: boolean): PixelBox[] => {
+  const w = canvas.width;
+  const h = canvas.height;
+  const { data } = canvas.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, w, h);
+
+  const gray = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+
+  const labels = new Int32Array(w * h);
+  const stack = new Int32Array(w * h);
+  const boxes: PixelBox[] = [];
+  const minArea = w * w * 0.004;
+  let label = 0;
+
+  for (let start = 0; start < w * h; start++) {
+    if (labels[start] !== 0 || gray[start] < 225) continue;
+    label++;
+    let sp = 0;
+    stack[sp++] = start;
+    labels[start] = label;
+    let area = 0, x0 = w, y0 = h, x1 = 0, y1 = 0;
+
+    while (sp > 0) {
+      const p = stack[--sp];
+      const px = p % w, py = (p - px) / w;
+      area++;
+      if (px < x0) x0 = px; if (px > x1) x1 = px;
+      if (py < y0) y0 = py; if (py > y1) y1 = py;
+      const visit = (n: number) => {
+        if (labels[n] === 0 && gray[n] >= 225) {
+          labels[n] = label;
+          stack[sp++] = n;
+        }
+      };
+      if (px > 0) visit(p - 1);
+      if (px < w - 1) visit(p + 1);
+      if (py > 0) visit(p - w);
+      if (py < h - 1) visit(p + w);
+    }
+
+    const bw = x1 - x0 + 1, bh = y1 - y0 + 1;
+    // Sayfa kenarına değen alanlar arka plandır, balon değildir
+    if (x0 === 0 || x1 === w - 1 || area < minArea || bw > w * 0.9) continue;
+    if ((cutTop && y0 === 0) || (cutBottom && y1 === h - 1)) continue;
+    const fill = area / (bw * bh);
+    if (fill < 0.4 || bh / bw > 4 || bw / bh > 6) continue;
+
+    // İçinde yazı olmayan parlak alanlar (gökyüzü, yüz vb.) elenir
+    let dark = 0;
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        if (gray[y * w + x] < 110 && labels[y * w + x] !== label) dark++;
+      }
+    }
+    const darkRatio = dark / (bw * bh);
+    if (darkRatio < 0.01 || darkRatio > 0.35) continue;
+
+    boxes.push({ x0, y0, x1: x1 + 1, y1: y1 + 1 });
+  }
+
+  return boxes;
+};
+
+const detectBubbleBoxes = async (strip: MergedImage, options: DetectionOptions): Promise<PixelBox[]> => {
+  const scale = Math.min(1, BUBBLE_ANALYSIS_WIDTH / strip.width);
+  const bandHeight = BUBBLE_BAND_HEIGHT / scale;
+  const step = (BUBBLE_BAND_HEIGHT - BUBBLE_BAND_OVERLAP) / scale;
+  const boxes: PixelBox[] = [];
+
+  for (let top = 0; top < strip.height; top += step) {
+    options.onProgress?.(`Balonlar analiz ediliyor: %${Math.round((top / strip.height) * 100)}`);
+    const h = Math.min(bandHeight, strip.height - top);
+    const canvas = await renderStripRect(strip, { x: 0, y: top, w: strip.width, h }, scale);
+    const isLast = top + h >= strip.height;
+    analyzeBubbleBand(canvas, top > 0, !isLast).forEach(b => boxes.push({
+      x0: b.x0 / scale,
+      y0: top + b.y0 / scale,
+      x1: b.x1 / scale,
+      y1: top + b.y1 / scale
+    }));
+    if (isLast) break;
+  }
+
+  // Bindirme bölgesinde iki bantta da bütün kalan balonlar bir kez sayılır
+  return boxes.filter((b, i) => !boxes.slice(0, i).some(o => overlapRatio(o, b) > 0.8));
+};
+
+export const detectTextRegions = async (
+  strip: MergedImage,
+  existingRegions: TextRegion[],
+  options: DetectionOptions
+): Promise<ProposedRegion[]> => {
+  const candidates: { box: PixelBox, source: ProposedRegion['source'] }[] = [];
+
+  if (options.method !== 'text') {
+    (await detectBubbleBoxes(strip, options)).forEach(box => candidates.push({ box, source: 'bubble' }));
+  }
+
+  if (options.method !== 'bubble') {
+    const clusters = mergeWordBoxes(await detectWordBoxes(strip, options), options.mergeGap);
+    clusters
+      // Zaten bir balonun içinde kalan metin grupları tekrar önerilmez
+      .filter(box => !candidates.some(c => overlapRatio(c.box, box) > 0.6))
+      .forEach(box => candidates.push({ box, source: 'text' }));
+  }
+
+  const existing: PixelBox[] = existingRegions.map(r => ({
+    x0: (r.x / 100) * strip.width,
+    y0: (r.y / 100) * strip.height,
+    x1: ((r.x + r.width) / 100) * strip.width,
+    y1: ((r.y + r.height) / 100) * strip.height
+  }));
+
+  return candidates
+    .filter(c => !existing.some(e => overlapRatio(e, c.box) > 0.5))
+    .map(({ box, source }) => {
+      const x0 = Math.max(0, box.x0 - options.padding);
+      const y0 = Math.max(0, box.y0 - options.padding);
+      const x1 = Math.min(strip.width, box.x1 + options.padding);
+      const y1 = Math.min(strip.height, box.y1 + options.padding);
+      return {
+        id: Math.random().toString(36).substr(2, 9),
+        x: (x0 / strip.width) * 100,
+        y: (y0 / strip.height) * 100,
+        width: ((x1 - x0) / strip.width) * 100,
+        height: ((y1 - y0) / strip.height) * 100,
+        source,
+        accepted: true
+      };
+    })
+    // Webtoon okuma sırası: yukarıdan aşağıya, aynı hizadakiler soldan sağa
+    .sort((a, b) => Math.abs(a.y - b.y) < 0.2 ? a.x - b.x : a.y - b.y);
+};
@@ -0,0 +1,82 @@
+
+import { TextRegion } from '../types';
+
+// Tüm geometri yüzde (0-100) cinsindendir, TextRegion ile aynı
+export type RegionRect = Pick<TextRegion, 'x' | 'y' | 'width' | 'height'>;
+
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export const MIN_REGION_SIZE = 0.05;
+
+export const boundsOf = (rects: RegionRect[]): RegionRect => {
+  const x0 = Math.min(...rects.map(r => r.x));
+  const y0 = Math.min(...rects.map(r => r.y));
+  const x1 = Math.max(...rects.map(r => r.x + r.width));
+  const y1 = Math.max(...rects.map(r => r.y + r.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+export const rectsIntersect = (a: RegionRect, b: RegionRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// Hareket eden kutuların kenarlarının yapışabileceği diğer kutuların kenar ve merkez çizgileri
+export const collectSnapTargets = (regions: TextRegion[], excludeIds: string[]) => {
+  const others = regions.filter(r => !excludeIds.includes(r.id));
+  return {
+    xs: others.flatMap(r => [r.x, r.x + r.width / 2, r.x + r.width]),
+    ys: others.flatMap(r => [r.y, r.y + r.height / 2, r.y + r.height])
+  };
+};
+
+/**
+ * Verilen kenar konumlarından hedeflere en yakın olanı bulur ve uygulanacak kaydırmayı döndürür.
+ */
+export const findSnap = (edges: number[], targets: number[], threshold: number) => {
+  let best: { delta: number, guide: number } | null = null;
+  edges.forEach(edge => targets.forEach(target => {
+    const delta = target - edge;
+    if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+      best = { delta, guide: target };
+    }
+  }));
+  return best as { delta: number, guide: number } | null;
+};
+
+export const resizeRect = (origin: RegionRect, handle: ResizeHandle, dx: number, dy: number): RegionRect => {
+  let x0 = origin.x, y0 = origin.y, x1 = origin.x + origin.width, y1 = origin.y + origin.height;
+  if (handle.includes('w')) x0 = Math.min(x1 - MIN_REGION_SIZE, Math.max(0, x0 + dx));
+  if (handle.includes('e')) x1 = Math.max(x0 + MIN_REGION_SIZE, Math.min(100, x1 + dx));
+  if (handle.includes('n')) y0 = Math.min(y1 - MIN_REGION_SIZE, Math.max(0, y0 + dy));
+  if (handle.includes('s')) y1 = Math.max(y0 + MIN_REGION_SIZE, Math.min(100, y1 + dy));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+// Grup halinde taşırken kutuların görsel dışına çıkmaması için kaydırmayı sınırlar
+export const clampGroupDelta = (rects: RegionRect[], dx: number, dy: number) => {
+  const b = boundsOf(rects);
+  return {
+    dx: Math.min(100 - (b.x + b.width), Math.max(-b.x, dx)),
+    dy: Math.min(100 - (b.y + b.height), Math.max(-b.y, dy))
+  };
+};
+
+export const alignRegions = (regions: TextRegion[], mode: AlignMode): Record<string, Partial<TextRegion>> => {
+  if (regions.length < 2) return {};
+  const b = boundsOf(regions);
+  const updates: Record<string, Partial<TextRegion>> = {};
+  regions.forEach(r => {
+    switch (mode) {
+      case 'left': updates[r.id] = { x: b.x }; break;
+      case 'center': updates[r.id] = { x: b.x + b.width / 2 - r.width / 2 }; break;
+      case 'right': updates[r.id] = { x: b.x + b.width - r.width }; break;
+      case 'top': updates[r.id] = { y: b.y }; break;
+      case 'middle': updates[r.id] = { y: b.y + b.height / 2 - r.height / 2 }; break;
+      case 'bottom': updates[r.id] = { y: b.y + b.height - r.height }; break;
+    }
+  });
+  return updates;
+};
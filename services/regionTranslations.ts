@@ -0,0 +1,57 @@
+
+import { RegionTranslation, TextRegion, TranslationStatus } from '../types';
+
+const EMPTY_TRANSLATION: RegionTranslation = { translatedText: '' };
+
+export const getTranslation = (region: TextRegion, lang: string): RegionTranslation =>
+  region.translations[lang] || EMPTY_TRANSLATION;
+
+export const translatedTextOf = (region: TextRegion, lang: string) => getTranslation(region, lang).translatedText;
+
+// Dizgide çevirisi olmayan kutuda kaynak metin gösterilir
+export const displayTextOf = (region: TextRegion, lang: string) => translatedTextOf(region, lang) || region.originalText;
+
+// Yalnızca verilen dilin çevirisini günceller; diğer dillerin çevirileri korunur
+export const withTranslation = (region: TextRegion, lang: string, patch: Partial<RegionTranslation>): TextRegion => ({
+  ...region,
+  translations: { ...region.translations, [lang]: { ...getTranslation(region, lang), ...patch } }
+});
+
+// `updateRegion` ile kullanılacak kısmi kutu güncellemesi
+export const translationUpdate = (region: TextRegion, lang: string, patch: Partial<RegionTranslation>): Partial<TextRegion> => ({
+  translations: withTranslation(region, lang, patch).translations
+});
+
+export const countTranslationStatuses = (regions: TextRegion[], lang: string) => {
+  const counts: Record<TranslationStatus, number> = { translated: 0, pending: 0, failed: 0 };
+  regions.forEach(r => {
+    const status = getTranslation(r, lang).translationStatus;
+    if (status) counts[status]++;
+  });
+  return counts;
+};
+
+// Proje dillerinin sırası sabit tutulur; etkin dil her zaman listede bulunur
+export const normalizeTargetLangs = (langs: string[] | undefined, activeLang: string) => {
+  const list = (langs || []).filter((lang, i, all) => all.indexOf(lang) === i);
+  return list.includes(activeLang) ? list : [...list, activeLang];
+};
+
+interface LegacyRegionFields {
+  translatedText?: string;
+  translationStatus?: TranslationStatus;
+  translationError?: string;
+  memoryMatch?: number;
+}
+
+// v3'ten önceki kayıtlardaki tek dillik çeviri alanları projenin hedef diline taşınır
+export const upgradeLegacyRegion = (region: TextRegion & LegacyRegionFields, lang: string): TextRegion => {
+  if (region.translations) return region;
+  const { translatedText = '', translationStatus, translationError, memoryMatch, ...rest } = region;
+  return {
+    ...rest,
+    translations: translatedText || translationStatus
+      ? { [lang]: { translatedText, translationStatus, translationError, memoryMatch } }
+      : {}
+  };
+};
@@ -0,0 +1,49 @@
+
+import { CleanMode, RegionType, SfxHandling, TextRegion } from '../types';
+
+export interface RegionTypeInfo {
+  id: RegionType;
+  name: string;
+  icon: string;
+  presetId: string; // Kutuya ön ayar atanmamışsa kullanılan yerleşik ön ayar
+  cleanMode: CleanMode; // Kutuya temizleme modu atanmamışsa kullanılan mod
+}
+
+export const REGION_TYPES: RegionTypeInfo[] = [
+  { id: 'dialogue', name: 'Diyalog', icon: 'fa-comment', presetId: 'dialogue', cleanMode: 'sampled' },
+  { id: 'narration', name: 'Anlatım', icon: 'fa-book-open', presetId: 'narration', cleanMode: 'sampled' },
+  { id: 'thought', name: 'Düşünce', icon: 'fa-cloud', presetId: 'thought', cleanMode: 'sampled' },
+  // Ses efektleri ve tabelalar çoğunlukla çizimin üzerindedir; düz renkle örtmek izi belli eder
+  { id: 'sfx', name: 'Ses Efekti', icon: 'fa-burst', presetId: 'sfx', cleanMode: 'inpaint' },
+  { id: 'sign', name: 'Tabela / Yazı', icon: 'fa-sign-hanging', presetId: 'sign', cleanMode: 'inpaint' }
+];
+
+export const DEFAULT_REGION_TYPE: RegionType = 'dialogue';
+
+export const regionTypeOf = (region: Pick<TextRegion, 'type'>): RegionType => region.type || DEFAULT_REGION_TYPE;
+
+export const regionTypeInfo = (type: RegionType) => REGION_TYPES.find(t => t.id === type) || REGION_TYPES[0];
+
+// Tür değişince ön ayar ve temizleme modu yeni türün varsayılanlarına döner
+export const regionTypeUpdate = (type: RegionType): Partial<TextRegion> => ({ type, presetId: undefined, cleanMode: undefined });
+
+export const DEFAULT_SFX_HANDLING: SfxHandling = 'translate';
+
+// Altyazı modunda ses efektinin çizimi olduğu gibi kalır; çevirisi kutunun altına küçük bir not olarak yazılır
+export const isSfxCaption = (region: Pick<TextRegion, 'type'>, sfxHandling: SfxHandling) =>
+  sfxHandling === 'subtitle' && regionTypeOf(region) === 'sfx';
+
+export const resolveCleanMode = (region: Pick<TextRegion, 'type' | 'cleanMode'>, sfxHandling: SfxHandling): CleanMode =>
+  isSfxCaption(region, sfxHandling) ? 'none' : region.cleanMode || regionTypeInfo(regionTypeOf(region)).cleanMode;
+
+// Çeviri isteminde türe göre verilen talimatlar (model için İngilizce)
+export const REGION_TYPE_INSTRUCTIONS: Record<RegionType, string> = {
+  dialogue: 'spoken line in a speech bubble; natural, conversational, short enough to fit the bubble',
+  narration: 'narration caption; written register, complete sentences, no speech mannerisms',
+  thought: "character's inner thought; introspective and informal, no quotation marks",
+  sfx: 'sound effect; a short, punchy onomatopoeia in the target language (one or two words, no sentences)',
+  sign: 'sign, label or on-screen text; concise, keep the formatting of names, numbers and titles'
+};
+
+export const SFX_SUBTITLE_INSTRUCTION =
+  'sound effect that will stay untranslated in the art; return only a very short plain gloss of the sound or action in the target language, in parentheses, e.g. "(slam)"';
@@ -0,0 +1,73 @@
+
+import { RegionComment, ReviewStatus, TextRegion } from '../types';
+import { getTranslation, withTranslation } from './regionTranslations';
+
+export const REVIEW_STATUSES: { id: ReviewStatus, name: string }[] = [
+  { id: 'untranslated', name: 'Çevrilmedi' },
+  { id: 'machine', name: 'Makine çevirisi' },
+  { id: 'edited', name: 'Düzenlendi' },
+  { id: 'approved', name: 'Onaylandı' },
+  { id: 'flagged', name: 'İşaretlendi' }
+];
+
+export const reviewStatusName = (status: ReviewStatus) => REVIEW_STATUSES.find(s => s.id === status)!.name;
+
+// Durumu kaydedilmemiş eski çeviriler makine çevirisi sayılır
+export const reviewStatusOf = (region: TextRegion, lang: string): ReviewStatus => {
+  const { translatedText, reviewStatus } = getTranslation(region, lang);
+  if (reviewStatus === 'flagged') return 'flagged';
+  if (!translatedText.trim()) return 'untranslated';
+  return reviewStatus && reviewStatus !== 'untranslated' ? reviewStatus : 'machine';
+};
+
+// Kaynak metni boş kutular (ör. silinecek ses efektleri) incelemeye dahil edilmez
+export const reviewableRegions = (regions: TextRegion[]) => regions.filter(r => r.originalText.trim());
+
+export const countReviewStatuses = (regions: TextRegion[], lang: string) => {
+  const counts: Record<ReviewStatus, number> = { untranslated: 0, machine: 0, edited: 0, approved: 0, flagged: 0 };
+  reviewableRegions(regions).forEach(r => { counts[reviewStatusOf(r, lang)]++; });
+  return counts;
+};
+
+export const countUnapproved = (regions: TextRegion[], lang: string) =>
+  reviewableRegions(regions).filter(r => reviewStatusOf(r, lang) !== 'approved').length;
+
+// undefined: elle atanan durum kaldırılır, durum çeviriden yeniden türetilir
+export const withReviewStatus = (region: TextRegion, lang: string, status: ReviewStatus | undefined) =>
+  withTranslation(region, lang, { reviewStatus: status });
+
+// Yorumlar eklenme sırasıyla tutulur; yanıtlar ait oldukları yorumun altında gösterilir
+export const threadComments = (comments: RegionComment[] = []) =>
+  comments
+    .filter(c => !c.parentId)
+    .map(comment => ({ comment, replies: comments.filter(c => c.parentId === comment.id) }));
+
+export const openCommentCount = (region: TextRegion) =>
+  (region.comments || []).filter(c => !c.parentId && !c.resolved).length;
+
+export const createComment = (author: string, text: string, parentId?: string): RegionComment => ({
+  id: Math.random().toString(36).substr(2, 9),
+  author: author.trim() || 'Anonim',
+  text: text.trim(),
+  createdAt: Date.now(),
+  ...(parentId && { parentId })
+});
+
+// Yorum yazarının adı projeye değil tarayıcıya kaydedilir
+const REVIEWER_NAME_KEY = 'webtoon-master:reviewer-name';
+
+export const loadReviewerName = () => {
+  try {
+    return localStorage.getItem(REVIEWER_NAME_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveReviewerName = (name: string) => {
+  try {
+    localStorage.setItem(REVIEWER_NAME_KEY, name);
+  } catch (e) {
+    console.error("İnceleyen adı kaydedilemedi:", e);
+  }
+};
@@ -0,0 +1,252 @@
+
+import { TextRegion } from '../types';
+import { escapeCsv, parseCsv } from './csv';
+import { escapeXml, parseXml, childElements, descendantElements, xmlLangCode } from './xml';
+import { translatedTextOf, withTranslation } from './regionTranslations';
+
+// Redaktörlere gönderilen senaryo dosyası biçimleri
+export type ScriptFormat = 'csv' | 'json' | 'xliff12' | 'xliff20';
+
+export const SCRIPT_FORMATS: { id: ScriptFormat, name: string, extension: string, mime: string }[] = [
+  { id: 'csv', name: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { id: 'json', name: 'JSON', extension: 'json', mime: 'application/json' },
+  { id: 'xliff12', name: 'XLIFF 1.2', extension: 'xlf', mime: 'application/xliff+xml' },
+  { id: 'xliff20', name: 'XLIFF 2.0', extension: 'xlf', mime: 'application/xliff+xml' }
+];
+
+// İçe aktarılan dosyadaki bir satır; eksik alanlar kutuda değiştirilmez
+export interface ScriptRow {
+  id?: string;
+  order?: number;
+  originalText?: string;
+  translatedText?: string;
+  notes?: string;
+}
+
+export type ScriptField = 'originalText' | 'translatedText' | 'notes';
+
+export interface ScriptChange {
+  regionId: string;
+  order: number;
+  field: ScriptField;
+  before: string;
+  after: string;
+  matchedBy: 'id' | 'order';
+}
+
+export interface UnmatchedRow {
+  line: number; // Dosyadaki kayıt sırası (1'den başlar, CSV başlığı hariç)
+  row: ScriptRow;
+  reason: string;
+}
+
+const SCRIPT_FIELDS: ScriptField[] = ['originalText', 'translatedText', 'notes'];
+const CSV_HEADER = ['id', 'order', 'originalText', 'translatedText', 'notes'];
+
+const sortedRegions = (regions: TextRegion[]) => [...regions].sort((a, b) => a.order - b.order);
+
+// Çeviri sütunu her zaman dosyanın hedef dilindeki çeviridir
+const fieldValue = (region: TextRegion, field: ScriptField, targetLang: string) =>
+  field === 'translatedText' ? translatedTextOf(region, targetLang) : region[field] || '';
+
+// Başındaki BOM, Excel'in Korece/Japonca metni UTF-8 olarak açması içindir
+const toCsv = (regions: TextRegion[], targetLang: string) => '\uFEFF' +
+  [CSV_HEADER, ...sortedRegions(regions).map(r => [r.id, String(r.order), r.originalText, translatedTextOf(r, targetLang), r.notes || ''])]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n');
+
+const toJson = (regions: TextRegion[], targetLang: string) =>
+  JSON.stringify(sortedRegions(regions).map(r => ({
+    id: r.id, order: r.order, originalText: r.originalText, translatedText: translatedTextOf(r, targetLang), notes: r.notes || ''
+  })), null, 2);
+
+// Sıra numarası standart "linenumber" bağlamında taşınır
+const toXliff12 = (regions: TextRegion[], sourceLang: string, targetLang: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="webtoon" source-language="${xmlLangCode(sourceLang)}" target-language="${xmlLangCode(targetLang)}" datatype="plaintext">
+    <body>
+${sortedRegions(regions).map(r => {
+  const target = translatedTextOf(r, targetLang);
+  return `      <trans-unit id="${escapeXml(r.id)}">
+        <source>${escapeXml(r.originalText)}</source>
+        <target${target ? ' state="translated"' : ''}>${escapeXml(target)}</target>
+        <context-group purpose="location"><context context-type="linenumber">${r.order}</context></context-group>${r.notes ? `
+        <note>${escapeXml(r.notes)}</note>` : ''}
+      </trans-unit>`;
+}).join('\n')}
+    </body>
+  </file>
+</xliff>
+`;
+
+// 2.0'da sıra numarası birimin `name` özniteliğindedir
+const toXliff20 = (regions: TextRegion[], sourceLang: string, targetLang: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${xmlLangCode(sourceLang)}" trgLang="${xmlLangCode(targetLang)}">
+  <file id="webtoon">
+${sortedRegions(regions).map(r => {
+  const target = translatedTextOf(r, targetLang);
+  return `    <unit id="${escapeXml(r.id)}" name="${r.order}">${r.notes ? `
+      <notes><note>${escapeXml(r.notes)}</note></notes>` : ''}
+      <segment state="${target ? 'translated' : 'initial'}">
+        <source>${escapeXml(r.originalText)}</source>
+        <target>${escapeXml(target)}</target>
+      </segment>
+    </unit>`;
+}).join('\n')}
+  </file>
+</xliff>
+`;
+
+export const exportScript = (regions: TextRegion[], format: ScriptFormat, sourceLang: string, targetLang: string) => {
+  switch (format) {
+    case 'csv': return toCsv(regions, targetLang);
+    case 'json': return toJson(regions, targetLang);
+    case 'xliff12': return toXliff12(regions, sourceLang, targetLang);
+    case 'xliff20': return toXliff20(regions, sourceLang, targetLang);
+  }
+};
+
+const parseOrder = (value: unknown) => {
+  const n = Number(String(value ?? '').trim());
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+};
+
+const optionalText = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+const parseCsvScript = (content: string): ScriptRow[] => {
+  const rows = parseCsv(content.replace(/^\uFEFF/, ''));
+  const header = rows[0]?.map(cell => cell.trim());
+  const hasHeader = header?.includes('id') || header?.includes('order');
+  // Başlık varsa sütunlar adla bulunur; tablolama programında sütunların yeri değişebilir
+  const columns = hasHeader ? header! : CSV_HEADER;
+  return (hasHeader ? rows.slice(1) : rows).map(cells => {
+    const cell = (name: string) => {
+      const index = columns.indexOf(name);
+      return index >= 0 && index < cells.length ? cells[index] : undefined;
+    };
+    return {
+      id: cell('id')?.trim() || undefined,
+      order: parseOrder(cell('order')),
+      originalText: cell('originalText'),
+      translatedText: cell('translatedText'),
+      notes: cell('notes')
+    };
+  });
+};
+
+const parseJsonScript = (content: string): ScriptRow[] => {
+  const parsed = JSON.parse(content);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.regions;
+  if (!Array.isArray(rows)) throw new Error('Senaryo dosyası bir dizi içermelidir.');
+  return rows.map(r => ({
+    id: optionalText(r?.id)?.trim() || undefined,
+    order: parseOrder(r?.order),
+    originalText: optionalText(r?.originalText),
+    translatedText: optionalText(r?.translatedText),
+    notes: optionalText(r?.notes)
+  }));
+};
+
+const parseXliffScript = (content: string): ScriptRow[] => {
+  const doc = parseXml(content);
+  const version = doc.documentElement.getAttribute('version') || '';
+
+  if (version.startsWith('2')) {
+    return descendantElements(doc, 'unit').map(unit => {
+      const segments = descendantElements(unit, 'segment');
+      const join = (name: string) => segments.some(s => childElements(s, name).length > 0)
+        ? segments.map(s => childElements(s, name)[0]?.textContent || '').join('')
+        : undefined;
+      const notes = descendantElements(unit, 'note');
+      return {
+        id: unit.getAttribute('id') || undefined,
+        order: parseOrder(unit.getAttribute('name')),
+        originalText: join('source'),
+        translatedText: join('target'),
+        notes: notes.length > 0 ? notes.map(n => n.textContent || '').join('\n') : undefined
+      };
+    });
+  }
+
+  return descendantElements(doc, 'trans-unit').map(unit => {
+    const lineNumber = descendantElements(unit, 'context').find(c => c.getAttribute('context-type') === 'linenumber');
+    const notes = childElements(unit, 'note');
+    return {
+      id: unit.getAttribute('id') || undefined,
+      order: parseOrder(lineNumber?.textContent),
+      originalText: childElements(unit, 'source')[0]?.textContent ?? undefined,
+      translatedText: childElements(unit, 'target')[0]?.textContent ?? undefined,
+      notes: notes.length > 0 ? notes.map(n => n.textContent || '').join('\n') : undefined
+    };
+  });
+};
+
+export const parseScriptFile = (fileName: string, content: string): ScriptRow[] => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv')) return parseCsvScript(content);
+  if (name.endsWith('.json')) return parseJsonScript(content);
+  if (name.endsWith('.xlf') || name.endsWith('.xliff') || name.endsWith('.xml')) return parseXliffScript(content);
+  throw new Error('Desteklenmeyen dosya türü. CSV, JSON veya XLIFF seçin.');
+};
+
+/**
+ * Satırları kutularla eşleştirip değişecek alanları çıkarır. Önce id ile eşleştirilir; id yoksa
+ * ya da bulunamazsa sıra numarasına düşülür. Aynı kutuya ikinci kez eşleşen satır reddedilir.
+ */
+export const diffScript = (regions: TextRegion[], rows: ScriptRow[], targetLang: string) => {
+  const byId = new Map(regions.map(r => [r.id, r]));
+  const byOrder = new Map(regions.map(r => [r.order, r]));
+  const claimed = new Set<string>();
+  const changes: ScriptChange[] = [];
+  const unmatched: UnmatchedRow[] = [];
+
+  rows.forEach((row, i) => {
+    let region = row.id ? byId.get(row.id) : undefined;
+    let matchedBy: ScriptChange['matchedBy'] = 'id';
+    if (!region && row.order !== undefined) {
+      region = byOrder.get(row.order);
+      matchedBy = 'order';
+    }
+    if (!region) {
+      unmatched.push({ line: i + 1, row, reason: row.id || row.order !== undefined ? 'Bu id veya sıra numarasıyla kutu yok' : 'id ve sıra numarası yok' });
+      return;
+    }
+    if (claimed.has(region.id)) {
+      unmatched.push({ line: i + 1, row, reason: `#${region.order} numaralı kutu daha önceki bir satırla eşleşti` });
+      return;
+    }
+    claimed.add(region.id);
+
+    SCRIPT_FIELDS.forEach(field => {
+      const after = row[field];
+      const before = fieldValue(region!, field, targetLang);
+      if (after === undefined || after === before) return;
+      changes.push({ regionId: region!.id, order: region!.order, field, before, after, matchedBy });
+    });
+  });
+
+  return { changes, unmatched };
+};
+
+// Çeviri değiştiyse kutu çevrilmiş ve düzenlenmiş sayılır; bellek ve OCR işaretleri artık geçerli değildir
+export const applyScriptChanges = (regions: TextRegion[], changes: ScriptChange[], targetLang: string) =>
+  regions.map(region => {
+    const own = changes.filter(c => c.regionId === region.id);
+    if (own.length === 0) return region;
+    let next = { ...region };
+    own.forEach(change => {
+      if (change.field === 'translatedText') {
+        next = withTranslation(next, targetLang, {
+          translatedText: change.after,
+          translationStatus: change.after.trim() ? 'translated' : undefined,
+          translationError: undefined,
+          memoryMatch: undefined,
+          reviewStatus: 'edited'
+        });
+      } else {
+        next[change.field] = change.after;
+      }
+      if (change.field === 'originalText') next.ocrConfidence = undefined;
+    });
+    return next;
+  });
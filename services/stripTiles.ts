@@ -0,0 +1,57 @@
+
+import { MergedImage, StripTile, WebtoonImage } from '../types';
+import { loadImage } from './imageUtils';
+
+// Tarayıcıların canvas yükseklik/alan sınırları nedeniyle şerit hiçbir zaman tek bir canvas'a
+// çizilmez. Tüm işlemler (OCR, önizleme, dışa aktarma) şeridin bir dikdörtgenini bu modül
+// aracılığıyla, yalnızca o alana denk gelen sayfalardan üretir.
+
+export type PixelRect = { x: number, y: number, w: number, h: number };
+
+// Çözülmüş sayfa görsellerinin bellekte tutulacağı en fazla sayı
+const TILE_CACHE_SIZE = 6;
+const tileCache = new Map<string, Promise<HTMLImageElement>>();
+
+export const buildStrip = (images: WebtoonImage[]): Omit<MergedImage, 'regions'> => {
+  let y = 0;
+  const tiles: StripTile[] = images.map(img => {
+    const tile = { pageId: img.id, blob: img.file, url: img.previewUrl, y, width: img.width || 0, height: img.height || 0 };
+    y += tile.height;
+    return tile;
+  });
+  return { tiles, width: Math.max(0, ...tiles.map(t => t.width)), height: y };
+};
+
+export const tilesInRange = (tiles: StripTile[], y0: number, y1: number) =>
+  tiles.filter(t => t.y < y1 && t.y + t.height > y0);
+
+export const loadTileImage = (tile: StripTile) => {
+  let pending = tileCache.get(tile.url);
+  if (pending) {
+    // En son kullanılan sona taşınır (LRU)
+    tileCache.delete(tile.url);
+  } else {
+    pending = loadImage(tile.url);
+    pending.catch(() => tileCache.delete(tile.url));
+  }
+  tileCache.set(tile.url, pending);
+  while (tileCache.size > TILE_CACHE_SIZE) tileCache.delete(tileCache.keys().next().value!);
+  return pending;
+};
+
+/**
+ * Şeridin piksel cinsinden verilen dikdörtgenini, sayfa sınırlarını aşsa bile tek bir canvas'a
+ * çizer. `scale` küçültülmüş analiz (balon algılama gibi) için kullanılır.
+ */
+export const renderStripRect = async (strip: Pick<MergedImage, 'tiles'>, rect: PixelRect, scale = 1) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(rect.w * scale));
+  canvas.height = Math.max(1, Math.round(rect.h * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  for (const tile of tilesInRange(strip.tiles, rect.y, rect.y + rect.h)) {
+    const img = await loadTileImage(tile);
+    ctx.drawImage(img, (0 - rect.x) * scale, (tile.y - rect.y) * scale, tile.width * scale, tile.height * scale);
+  }
+  return canvas;
+};
@@ -0,0 +1,114 @@
+
+import { createWorker, Worker, WorkerOptions, WorkerParams } from 'tesseract.js';
+
+// Her işçi dil verisini ayrı belleğe yükler (CJK'de ~100 MB); çekirdek sayısı ne olursa olsun sınırlanır
+const MAX_POOL_SIZE = 4;
+export const TESSERACT_POOL_SIZE = Math.max(1, Math.min(MAX_POOL_SIZE, (navigator.hardwareConcurrency || 2) - 1));
+
+// `npm run setup:ocr` ile public/tesseract altına kopyalanan işçi, çekirdek ve dil dosyaları
+const ASSET_BASE = `${import.meta.env.BASE_URL}tesseract`;
+
+interface LanguagePool {
+  params?: Partial<WorkerParams>;
+  created: number;
+  all: Promise<Worker>[];
+  idle: Worker[];
+  waiting: ((worker: Worker) => void)[];
+}
+
+const pools = new Map<string, LanguagePool>();
+// Her dosya bir kez yoklanır; sonuç oturum boyunca geçerlidir
+const probes = new Map<string, Promise<boolean>>();
+
+const probeAsset = (url: string, missingWarning: string) => {
+  if (!probes.has(url)) {
+    probes.set(url, fetch(url, { method: 'HEAD' })
+      // Geliştirme sunucusu eksik dosyalar için index.html döndürür
+      .then(res => res.ok && !(res.headers.get('Content-Type') || '').includes('text/html'))
+      .catch(() => false)
+      .then(found => {
+        if (!found) console.warn(missingWarning);
+        return found;
+      }));
+  }
+  return probes.get(url)!;
+};
+
+/**
+ * Uygulamayla gelen dosyalar varsa tamamen çevrimdışı çalışılır. Eksik olan kısım için
+ * (işçi/çekirdek ya da yalnızca o dilin verisi) tesseract.js'in varsayılan CDN adreslerine düşülür.
+ */
+const resolveWorkerOptions = async (langCode: string): Promise<Partial<WorkerOptions>> => {
+  // İşçi blob URL'inden importScripts ile yüklendiği için adresler mutlak olmalı
+  const base = new URL(ASSET_BASE, window.location.href).href;
+  const [hasWorker, hasLang] = await Promise.all([
+    probeAsset(`${base}/worker.min.js`, "Yerel Tesseract dosyaları bulunamadı, CDN kullanılıyor. Çevrimdışı kullanım için: npm run setup:ocr"),
+    probeAsset(`${base}/lang/${langCode}.traineddata.gz`, `Yerel "${langCode}" dil verisi bulunamadı, CDN'den indirilecek. Çevrimdışı kullanım için: npm run setup:ocr`)
+  ]);
+  if (!hasWorker) return {};
+  const local = { workerPath: `${base}/worker.min.js`, corePath: `${base}/core` };
+  return hasLang ? { ...local, langPath: `${base}/lang` } : local;
+};
+
+const spawnWorker = async (langCode: string, params?: Partial<WorkerParams>) => {
+  const worker = await createWorker(langCode, undefined, await resolveWorkerOptions(langCode));
+  if (params) await worker.setParameters(params);
+  return worker;
+};
+
+const getPool = (langCode: string, params?: Partial<WorkerParams>) => {
+  if (!pools.has(langCode)) pools.set(langCode, { params, created: 0, all: [], idle: [], waiting: [] });
+  return pools.get(langCode)!;
+};
+
+// Boşta işçi yoksa havuz dolana kadar yenisi açılır, doluysa sıra beklenir
+const acquire = async (pool: LanguagePool, langCode: string): Promise<Worker> => {
+  const idle = pool.idle.pop();
+  if (idle) return idle;
+  if (pool.created < TESSERACT_POOL_SIZE) {
+    pool.created++;
+    const spawned = spawnWorker(langCode, pool.params);
+    pool.all.push(spawned);
+    try {
+      return await spawned;
+    } catch (err) {
+      pool.created--;
+      pool.all = pool.all.filter(w => w !== spawned);
+      throw err;
+    }
+  }
+  return new Promise(resolve => pool.waiting.push(resolve));
+};
+
+const release = (pool: LanguagePool, worker: Worker) => {
+  const next = pool.waiting.shift();
+  if (next) next(worker);
+  else pool.idle.push(worker);
+};
+
+/**
+ * Havuzdan bir işçi alıp işi çalıştırır. İşçiler uygulama açık kaldıkça yaşar; dil verisi
+ * her tıklamada yeniden yüklenmez.
+ */
+export const withTesseractWorker = async <T>(
+  langCode: string,
+  task: (worker: Worker) => Promise<T>,
+  params?: Partial<WorkerParams>
+): Promise<T> => {
+  const pool = getPool(langCode, params);
+  const worker = await acquire(pool, langCode);
+  try {
+    return await task(worker);
+  } finally {
+    release(pool, worker);
+  }
+};
+
+// Kaynak dil değişince kullanılmayan dillerin işçileri kapatılır (bellek)
+export const releaseUnusedPools = (keep: string[]) => {
+  pools.forEach((pool, langCode) => {
+    if (keep.includes(langCode) || pool.created > pool.idle.length) return;
+    pools.delete(langCode);
+    pool.all.forEach(w => w.then(worker => worker.terminate()).catch(() => {}));
+  });
+};
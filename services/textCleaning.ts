@@ -0,0 +1,193 @@
+
+import { CleanMode, MergedImage, TextRegion } from '../types';
+import { inpaintTelea } from './inpaint';
+import { regionToPixels } from './imageUtils';
+import { renderStripRect } from './stripTiles';
+
+export const CLEAN_MODES: { id: CleanMode, name: string }[] = [
+  { id: 'sampled', name: 'Kenar Rengiyle Doldur' },
+  { id: 'inpaint', name: 'Akıllı Onarım (Inpaint)' },
+  { id: 'white', name: 'Beyaz Kutu' },
+  { id: 'none', name: 'Temizleme Yok' }
+];
+
+const INPAINT_RADIUS = 5;
+// Kenar renginden bu kadar uzak pikseller yazı kabul edilir (RGB öklid mesafesi)
+const MASK_THRESHOLD = 70;
+// Kenar yumuşatma (anti-aliasing) piksellerini de kapsamak için maske genişletilir
+const MASK_DILATION = 2;
+
+interface PixelRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextJobId = 1;
+const pendingJobs = new Map<number, { resolve: (data: Uint8ClampedArray) => void, reject: (err: Error) => void }>();
+
+const getWorker = () => {
+  if (worker || workerFailed || typeof Worker === 'undefined') return worker;
+  try {
+    worker = new Worker(new URL('./inpaint.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<{ id: number, data?: Uint8ClampedArray, error?: string }>) => {
+      const job = pendingJobs.get(e.data.id);
+      if (!job) return;
+      pendingJobs.delete(e.data.id);
+      if (e.data.error || !e.data.data) job.reject(new Error(e.data.error || 'Inpaint başarısız oldu.'));
+      else job.resolve(e.data.data);
+    };
+    worker.onerror = () => {
+      // Worker yüklenemezse (ör. bundler olmadan çalışırken) ana iş parçacığına düşülür
+      workerFailed = true;
+      worker = null;
+      pendingJobs.forEach(job => job.reject(new Error('Inpaint worker başlatılamadı.')));
+      pendingJobs.clear();
+    };
+  } catch {
+    workerFailed = true;
+  }
+  return worker;
+};
+
+const runInpaint = (data: Uint8ClampedArray, width: number, height: number, mask: Uint8Array) => {
+  const w = getWorker();
+  if (!w) {
+    inpaintTelea(data, width, height, mask, INPAINT_RADIUS);
+    return Promise.resolve(data);
+  }
+  const copy = new Uint8ClampedArray(data);
+  return new Promise<Uint8ClampedArray>((resolve, reject) => {
+    const id = nextJobId++;
+    pendingJobs.set(id, { resolve, reject });
+    w.postMessage({ id, width, height, data: copy, mask, radius: INPAINT_RADIUS }, [copy.buffer]);
+  }).catch(() => {
+    inpaintTelea(data, width, height, mask, INPAINT_RADIUS);
+    return data;
+  });
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 255;
+};
+
+// Kutunun kenar çizgisindeki piksellerin medyan rengi; düz zeminli balonlarda arka plan rengini verir
+export const sampleBorderColor = (data: Uint8ClampedArray, width: number, rect: PixelRect): [number, number, number] => {
+  const r: number[] = [], g: number[] = [], b: number[] = [];
+  const push = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    r.push(data[i]); g.push(data[i + 1]); b.push(data[i + 2]);
+  };
+  const x1 = rect.x + rect.w - 1, y1 = rect.y + rect.h - 1;
+  for (let x = rect.x; x <= x1; x++) { push(x, rect.y); push(x, y1); }
+  for (let y = rect.y + 1; y < y1; y++) { push(rect.x, y); push(x1, y); }
+  return [median(r), median(g), median(b)];
+};
+
+// Kenar renginden belirgin şekilde farklı pikselleri (harfleri) işaretler
+export const buildTextMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  rect: PixelRect,
+  background: [number, number, number]
+) => {
+  const raw = new Uint8Array(width * height);
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const i = (y * width + x) * 4;
+      const dr = data[i] - background[0], dg = data[i + 1] - background[1], db = data[i + 2] - background[2];
+      if (dr * dr + dg * dg + db * db > MASK_THRESHOLD * MASK_THRESHOLD) raw[y * width + x] = 1;
+    }
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!raw[y * width + x]) continue;
+      for (let dy = -MASK_DILATION; dy <= MASK_DILATION; dy++) {
+        for (let dx = -MASK_DILATION; dx <= MASK_DILATION; dx++) {
+          const nx = x + dx, ny = y + dy;
+          // Maske kutunun dışına taşmaz; kutu dışındaki çizim olduğu gibi kalır
+          if (nx >= rect.x && ny >= rect.y && nx < rect.x + rect.w && ny < rect.y + rect.h) mask[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return mask;
+};
+
+/**
+ * Verilen kanvas üzerindeki piksel dikdörtgeninden orijinal yazıyı siler.
+ */
+export const cleanRegionOnCanvas = async (ctx: CanvasRenderingContext2D, rect: PixelRect, mode: CleanMode) => {
+  const x = Math.max(0, Math.floor(rect.x));
+  const y = Math.max(0, Math.floor(rect.y));
+  const w = Math.min(ctx.canvas.width - x, Math.ceil(rect.w));
+  const h = Math.min(ctx.canvas.height - y, Math.ceil(rect.h));
+  if (mode === 'none' || w <= 0 || h <= 0) return;
+
+  if (mode === 'white') {
+    ctx.fillStyle = 'white';
+    ctx.fillRect(x, y, w, h);
+    return;
+  }
+
+  if (mode === 'sampled') {
+    const { data } = ctx.getImageData(x, y, w, h);
+    const [r, g, b] = sampleBorderColor(data, w, { x: 0, y: 0, w, h });
+    ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+    ctx.fillRect(x, y, w, h);
+    return;
+  }
+
+  // Onarım için kutunun çevresindeki pikseller de bağlam olarak alınır
+  const margin = INPAINT_RADIUS + MASK_DILATION + 2;
+  const cx = Math.max(0, x - margin);
+  const cy = Math.max(0, y - margin);
+  const cw = Math.min(ctx.canvas.width, x + w + margin) - cx;
+  const ch = Math.min(ctx.canvas.height, y + h + margin) - cy;
+  const imageData = ctx.getImageData(cx, cy, cw, ch);
+  const local = { x: x - cx, y: y - cy, w, h };
+  const mask = buildTextMask(imageData.data, cw, ch, local, sampleBorderColor(imageData.data, cw, local));
+
+  const result = await runInpaint(imageData.data, cw, ch, mask);
+  imageData.data.set(result);
+  ctx.putImageData(imageData, cx, cy);
+};
+
+/**
+ * Kutunun temizlenmiş halini şerit koordinatlarındaki konumuyla birlikte döndürür. Temizleme
+ * kenar piksellerine ihtiyaç duyduğu için kutu bir pay ile birlikte, sayfa sınırını aşsa bile
+ * tek parça halinde işlenir.
+ */
+export const renderCleanedPatch = async (strip: MergedImage, region: TextRegion, mode: CleanMode) => {
+  const rect = regionToPixels(region, strip.width, strip.height);
+  const margin = INPAINT_RADIUS + MASK_DILATION + 2;
+  const cx = Math.max(0, Math.floor(rect.x) - margin);
+  const cy = Math.max(0, Math.floor(rect.y) - margin);
+  const cw = Math.min(strip.width, Math.ceil(rect.x + rect.w) + margin) - cx;
+  const ch = Math.min(strip.height, Math.ceil(rect.y + rect.h) + margin) - cy;
+
+  const canvas = await renderStripRect(strip, { x: cx, y: cy, w: cw, h: ch });
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  await cleanRegionOnCanvas(ctx, { x: rect.x - cx, y: rect.y - cy, w: rect.w, h: rect.h }, mode);
+
+  // Piksel ızgarasına hizalı kesilir ki dışa aktarmada yeniden örnekleme bulanıklığı olmasın
+  const x = Math.floor(rect.x), y = Math.floor(rect.y);
+  const out = document.createElement('canvas');
+  out.width = Math.max(1, Math.ceil(rect.x + rect.w) - x);
+  out.height = Math.max(1, Math.ceil(rect.y + rect.h) - y);
+  out.getContext('2d')!.drawImage(canvas, x - cx, y - cy, out.width, out.height, 0, 0, out.width, out.height);
+  return { canvas: out, x, y };
+};
+
+// Editörde gösterilmek üzere tek bir kutunun temizlenmiş halini üretir
+export const renderCleanedPreview = async (strip: MergedImage, region: TextRegion, mode: CleanMode) => {
+  const patch = await renderCleanedPatch(strip, region, mode);
+  return patch.canvas.toDataURL('image/png');
+};
@@ -0,0 +1,248 @@
+
+// Dizgi yerleşim motoru: kutuya sığan en büyük font boyutunu bulur, boşluklu ve boşluksuz
+// yazı sistemleri için satırları böler ve taşma durumunu raporlar. Çizim yapmaz; ölçüm için
+// dışarıdan verilen `measure` fonksiyonunu kullanır.
+
+export type FitShape = 'rect' | 'ellipse';
+
+export type MeasureText = (text: string, fontSize: number) => number;
+
+export interface LayoutOptions {
+  fontSize: number | 'auto';
+  lineHeight: number;
+  shape: FitShape;
+  hyphenate: boolean;
+  vertical: boolean;
+  minFontSize?: number;
+  maxFontSize?: number;
+}
+
+export interface LayoutLine {
+  text: string;
+  width: number;
+  // Kutunun merkezine göre satırın (dikeyde sütunun) merkez konumu
+  offset: number;
+}
+
+export interface LayoutResult {
+  fontSize: number;
+  lines: LayoutLine[];
+  overflow: boolean;
+}
+
+const MIN_FONT_SIZE = 8;
+
+// Satır başında bulunamayacak karakterler (kinsoku shori)
+const NO_LINE_START = new Set(Array.from('、。，．,.!?！？)）]］}｝」』】〉》〕〗〙〛‐–—…‥ーぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ々〻・：；:;%％'));
+// Satır sonunda bulunamayacak karakterler
+const NO_LINE_END = new Set(Array.from('(（[［{｛「『【〈《〔〖〘〚'));
+// Kelimeler arasında boşluk kullanmayan, her karakterden sonra satır kırılabilen yazılar (Han, Kana)
+const BREAK_ANYWHERE = /[⺀-⿿぀-ヿ㐀-䶿一-鿿豈-﫿＀-￯]/;
+const HYPHENATABLE = /^[\p{L}\p{M}]+$/u;
+
+interface Token {
+  text: string;
+  spaceBefore: boolean;
+}
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+
+  text.trim().split(/\s+/).forEach(word => {
+    if (!word) return;
+    const chars = Array.from(word);
+    let current = '';
+    let first = true;
+
+    const flush = () => {
+      if (!current) return;
+      tokens.push({ text: current, spaceBefore: first && tokens.length > 0 });
+      first = false;
+      current = '';
+    };
+
+    chars.forEach((ch, i) => {
+      const prev = chars[i - 1];
+      const breakable = i > 0
+        && (BREAK_ANYWHERE.test(ch) || BREAK_ANYWHERE.test(prev))
+        && !NO_LINE_START.has(ch)
+        && !NO_LINE_END.has(prev);
+      if (breakable) flush();
+      current += ch;
+    });
+    flush();
+  });
+
+  return tokens;
+};
+
+// Tek başına satıra sığmayan uzun kelimeyi tire ile böler
+const hyphenateToken = (token: string, maxWidth: number, measure: (t: string) => number): string[] => {
+  const chars = Array.from(token);
+  const parts: string[] = [];
+  let start = 0;
+  while (start < chars.length) {
+    const rest = chars.slice(start).join('');
+    if (measure(rest) <= maxWidth) {
+      parts.push(rest);
+      break;
+    }
+    let end = chars.length - 2;
+    while (end > start + 2 && measure(chars.slice(start, end).join('') + '-') > maxWidth) end--;
+    // Her parçada en az iki harf kalmalı; kalamıyorsa bölünmeden bırakılır
+    if (end <= start + 1 || chars.length - end < 2) {
+      parts.push(rest);
+      break;
+    }
+    parts.push(chars.slice(start, end).join('') + '-');
+    start = end;
+  }
+  return parts;
+};
+
+const wrapTokens = (
+  tokens: Token[],
+  widthForLine: (index: number) => number,
+  measure: (t: string) => number,
+  hyphenate: boolean
+): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  const pushToken = (token: Token) => {
+    const candidate = line ? `${line}${token.spaceBefore ? ' ' : ''}${token.text}` : token.text;
+    if (measure(candidate) <= widthForLine(lines.length)) {
+      line = candidate;
+      return;
+    }
+    if (line) {
+      lines.push(line);
+      line = '';
+      pushToken({ ...token, spaceBefore: false });
+      return;
+    }
+    // Boş satıra bile sığmayan parça
+    if (hyphenate && HYPHENATABLE.test(token.text)) {
+      const parts = hyphenateToken(token.text, widthForLine(lines.length), measure);
+      parts.slice(0, -1).forEach(p => lines.push(p));
+      line = parts[parts.length - 1];
+    } else {
+      line = token.text;
+    }
+  };
+
+  tokens.forEach(pushToken);
+  if (line) lines.push(line);
+  return lines;
+};
+
+const ellipseWidth = (width: number, height: number, offset: number, lineHeight: number) => {
+  const edge = (Math.abs(offset) + lineHeight / 2) / (height / 2);
+  return edge >= 1 ? 0 : width * Math.sqrt(1 - edge * edge);
+};
+
+const tryHorizontal = (
+  paragraphs: Token[][],
+  width: number,
+  height: number,
+  fontSize: number,
+  options: LayoutOptions,
+  measure: MeasureText
+): { lines: LayoutLine[], fits: boolean } => {
+  const lh = fontSize * options.lineHeight;
+  const m = (t: string) => measure(t, fontSize);
+  const maxLines = Math.max(1, Math.floor(height / lh));
+
+  const build = (texts: string[], widths: (i: number) => number) => {
+    const lines = texts.map((text, i) => ({
+      text,
+      width: m(text),
+      offset: (i - (texts.length - 1) / 2) * lh
+    }));
+    const fits = texts.length * lh <= height + 0.5 && lines.every((l, i) => l.width <= widths(i) + 0.5);
+    return { lines, fits };
+  };
+
+  const wrapAll = (widths: (i: number) => number) => {
+    const texts: string[] = [];
+    paragraphs.forEach(tokens => {
+      const offset = texts.length;
+      texts.push(...wrapTokens(tokens, i => widths(offset + i), m, options.hyphenate));
+    });
+    return texts;
+  };
+
+  if (options.shape === 'rect') {
+    const widths = () => width;
+    return build(wrapAll(widths), widths);
+  }
+
+  // Elips: satır sayısı arttıkça her satırın kullanabileceği genişlik değişir, bu yüzden
+  // her olası satır sayısı için yeniden bölünür ve tam o sayıda satır üreten ilk düzen seçilir
+  for (let n = 1; n <= maxLines; n++) {
+    const widths = (i: number) => ellipseWidth(width, height, (i - (n - 1) / 2) * lh, lh);
+    const texts = wrapAll(widths);
+    const result = build(texts, widths);
+    if (texts.length === n && result.fits) return result;
+  }
+  const rectWidths = () => width;
+  return { ...build(wrapAll(rectWidths), rectWidths), fits: false };
+};
+
+const tryVertical = (text: string, width: number, height: number, fontSize: number, options: LayoutOptions) => {
+  const step = fontSize * options.lineHeight;
+  const chars = Array.from(text.replace(/\s+/g, ''));
+  const perColumn = Math.max(1, Math.floor(height / step));
+  const columns: string[] = [];
+  for (let i = 0; i < chars.length; i += perColumn) columns.push(chars.slice(i, i + perColumn).join(''));
+
+  // Sütunlar sağdan sola dizilir; offset kutunun merkezine göre yatay konumdur
+  const lines = columns.map((col, i) => ({
+    text: col,
+    width: Array.from(col).length * step,
+    offset: ((columns.length - 1) / 2 - i) * step
+  }));
+  return { lines, fits: columns.length * step <= width + 0.5 && (perColumn * step <= height + 0.5) };
+};
+
+/**
+ * Metni verilen iç kutuya (piksel) yerleştirir. Otomatik boyutta sığan en büyük font boyutu
+ * ikili arama ile bulunur; en küçük boyutta bile sığmıyorsa `overflow` true döner.
+ */
+export const layoutText = (
+  text: string,
+  width: number,
+  height: number,
+  options: LayoutOptions,
+  measure: MeasureText
+): LayoutResult => {
+  const paragraphs = text.split('\n').map(tokenize).filter(p => p.length > 0);
+  if (paragraphs.length === 0 || width <= 0 || height <= 0) {
+    return { fontSize: typeof options.fontSize === 'number' ? options.fontSize : MIN_FONT_SIZE, lines: [], overflow: false };
+  }
+
+  const attempt = (size: number) => options.vertical
+    ? tryVertical(text, width, height, size, options)
+    : tryHorizontal(paragraphs, width, height, size, options, measure);
+
+  if (options.fontSize !== 'auto') {
+    const { lines, fits } = attempt(options.fontSize);
+    return { fontSize: options.fontSize, lines, overflow: !fits };
+  }
+
+  const min = options.minFontSize ?? MIN_FONT_SIZE;
+  const max = Math.max(min, Math.floor(options.maxFontSize ?? Math.min(height, width) * 0.45));
+  let lo = min, hi = max, best: number | null = null;
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (attempt(mid).fits) {
+      best = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  const fontSize = best ?? min;
+  return { fontSize, lines: attempt(fontSize).lines, overflow: best === null };
+};
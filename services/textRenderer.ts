@@ -0,0 +1,187 @@
+
+import { SfxHandling, StylePreset, TextRegion, TextStyle } from '../types';
+import { layoutText, LayoutResult } from './textLayout';
+import { isSfxCaption, regionTypeInfo, regionTypeOf } from './regionTypes';
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'Inter',
+  fontSize: 'auto',
+  bold: true,
+  italic: false,
+  fill: '#000000',
+  strokeWidth: 0,
+  strokeColor: '#ffffff',
+  align: 'center',
+  lineHeight: 1.2,
+  rotation: 0,
+  vertical: false,
+  fitShape: 'rect',
+  hyphenate: true
+};
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  { id: 'dialogue', name: 'Diyalog', builtIn: true, style: {} },
+  { id: 'dialogue-round', name: 'Yuvarlak Balon', builtIn: true, style: { fitShape: 'ellipse' } },
+  { id: 'shout', name: 'Bağırma', builtIn: true, style: { fontFamily: 'Impact', italic: true, strokeWidth: 2, strokeColor: '#ffffff' } },
+  { id: 'thought', name: 'Düşünce', builtIn: true, style: { bold: false, italic: true } },
+  { id: 'narration', name: 'Anlatım Kutusu', builtIn: true, style: { fill: '#ffffff', bold: false } },
+  { id: 'over-art', name: 'Çizim Üstü', builtIn: true, style: { fill: '#ffffff', strokeWidth: 3, strokeColor: '#000000' } },
+  { id: 'vertical', name: 'Dikey Yazı', builtIn: true, style: { vertical: true, lineHeight: 1.1 } },
+  { id: 'sfx', name: 'Ses Efekti', builtIn: true, style: { fontFamily: 'Impact', fill: '#ffffff', strokeWidth: 4, strokeColor: '#000000', lineHeight: 1, hyphenate: false } },
+  { id: 'sign', name: 'Tabela', builtIn: true, style: { fontFamily: 'Arial', bold: false, hyphenate: false } }
+];
+
+export const SYSTEM_FONTS = ['Inter', 'Arial', 'Comic Sans MS', 'Impact', 'Georgia', 'Courier New'];
+
+// Yazı kutunun kenarına yapışmasın diye her yönden bırakılan boşluk oranı
+const PADDING_RATIO = 0.075;
+
+export const findPreset = (presets: StylePreset[], id?: string) =>
+  [...BUILT_IN_PRESETS, ...presets].find(p => p.id === (id || 'dialogue')) || BUILT_IN_PRESETS[0];
+
+// Ön ayar seçilmemiş kutular türlerinin varsayılan ön ayarıyla çizilir
+export const regionPresetId = (region: Pick<TextRegion, 'presetId' | 'type'>) =>
+  region.presetId || regionTypeInfo(regionTypeOf(region)).presetId;
+
+export const resolveTextStyle = (region: TextRegion, presets: StylePreset[]): TextStyle => ({
+  ...DEFAULT_TEXT_STYLE,
+  ...findPreset(presets, regionPresetId(region)).style,
+  ...region.style
+});
+
+// Altyazı modundaki ses efekti açıklaması: çizimin üzerinde okunabilsin diye konturlu, küçük ve eğik
+export const SFX_CAPTION_STYLE: TextStyle = {
+  ...DEFAULT_TEXT_STYLE,
+  fontFamily: 'Arial',
+  italic: true,
+  fill: '#ffffff',
+  strokeWidth: 2,
+  strokeColor: '#000000',
+  lineHeight: 1.1,
+  hyphenate: false
+};
+
+// Açıklama şeridinin yüksekliği şerit genişliğine göre ölçeklenir; kısa kutularda da en az bu kadar yer açılır
+const SFX_CAPTION_HEIGHT_RATIO = 0.035;
+const SFX_CAPTION_MIN_WIDTH_RATIO = 0.25;
+
+/**
+ * Açıklamanın yeri: kutunun hemen altında, yatayda ortalı. Şeridin dibine taşacaksa kutunun
+ * üstüne alınır; her durumda şerit sınırları içinde kalır. Tüm ölçüler piksel cinsindendir.
+ */
+export const sfxCaptionRect = (rect: { x: number, y: number, w: number, h: number }, stripWidth: number, stripHeight: number) => {
+  const h = stripWidth * SFX_CAPTION_HEIGHT_RATIO;
+  const w = Math.min(stripWidth, Math.max(rect.w, stripWidth * SFX_CAPTION_MIN_WIDTH_RATIO));
+  const x = Math.min(stripWidth - w, Math.max(0, rect.x + rect.w / 2 - w / 2));
+  const below = rect.y + rect.h;
+  const y = below + h <= stripHeight ? below : Math.max(0, rect.y - h);
+  return { x, y, w, h };
+};
+
+// Kutunun yazısının çizileceği alan (şerit pikseli) ve stil
+export interface TextPlacement {
+  rect: { x: number, y: number, w: number, h: number };
+  style: TextStyle;
+}
+
+// Dışa aktarma, önizleme ve editör aynı kararı kullanır
+export const resolveTextPlacement = (
+  region: TextRegion,
+  rect: { x: number, y: number, w: number, h: number },
+  strip: { width: number, height: number },
+  presets: StylePreset[],
+  sfxHandling: SfxHandling
+): TextPlacement => isSfxCaption(region, sfxHandling)
+  ? { rect: sfxCaptionRect(rect, strip.width, strip.height), style: SFX_CAPTION_STYLE }
+  : { rect, style: resolveTextStyle(region, presets) };
+
+export const buildFont = (style: TextStyle, size: number) =>
+  `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${size}px "${style.fontFamily}", sans-serif`;
+
+// Kutunun kenar boşlukları düşülmüş iç alanı
+const innerSize = (rect: { w: number, h: number }) => ({
+  w: rect.w * (1 - PADDING_RATIO * 2),
+  h: rect.h * (1 - PADDING_RATIO * 2)
+});
+
+const computeLayout = (ctx: CanvasRenderingContext2D, text: string, rect: { w: number, h: number }, style: TextStyle): LayoutResult => {
+  const inner = innerSize(rect);
+  let currentSize = -1;
+  return layoutText(text, inner.w, inner.h, {
+    fontSize: style.fontSize,
+    lineHeight: style.lineHeight,
+    shape: style.fitShape,
+    hyphenate: style.hyphenate,
+    vertical: style.vertical
+  }, (t, size) => {
+    if (size !== currentSize) {
+      ctx.font = buildFont(style, size);
+      currentSize = size;
+    }
+    return ctx.measureText(t).width;
+  });
+};
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// Çizim yapmadan yerleşimi hesaplar; editördeki taşma uyarıları için kullanılır
+export const measureRegionLayout = (text: string, rect: { w: number, h: number }, style: TextStyle) => {
+  if (!measureCtx) measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) return null;
+  return computeLayout(measureCtx, text, rect, style);
+};
+
+const drawGlyphs = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, style: TextStyle) => {
+  if (style.strokeWidth > 0) {
+    ctx.lineWidth = style.strokeWidth * 2;
+    ctx.strokeStyle = style.strokeColor;
+    ctx.lineJoin = 'round';
+    ctx.strokeText(text, x, y);
+  }
+  ctx.fillText(text, x, y);
+};
+
+/**
+ * Editör önizlemesi ve dışa aktarma aynı çizimi kullanır; rect piksel cinsindendir.
+ */
+export const drawRegionText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  rect: { x: number, y: number, w: number, h: number },
+  style: TextStyle
+): LayoutResult | null => {
+  if (!text.trim()) return null;
+  const layout = computeLayout(ctx, text, rect, style);
+  const inner = innerSize(rect);
+
+  ctx.save();
+  ctx.translate(rect.x + rect.w / 2, rect.y + rect.h / 2);
+  if (style.rotation) ctx.rotate((style.rotation * Math.PI) / 180);
+  ctx.font = buildFont(style, layout.fontSize);
+  ctx.fillStyle = style.fill;
+  ctx.textBaseline = 'middle';
+
+  if (style.vertical) {
+    // Dikey yazı: karakterler yukarıdan aşağıya, sütunlar sağdan sola dizilir
+    ctx.textAlign = 'center';
+    const step = layout.fontSize * style.lineHeight;
+    layout.lines.forEach(column => {
+      const chars = Array.from(column.text);
+      chars.forEach((ch, i) => drawGlyphs(ctx, ch, column.offset, (i - (chars.length - 1) / 2) * step, style));
+    });
+  } else {
+    ctx.textAlign = style.align;
+    const x = style.align === 'left' ? -inner.w / 2 : style.align === 'right' ? inner.w / 2 : 0;
+    layout.lines.forEach(line => drawGlyphs(ctx, line.text, x, line.offset, style));
+  }
+
+  ctx.restore();
+  return layout;
+};
+
+// Canvas'a çizmeden önce kullanılan fontların yüklendiğinden emin olunmalı, yoksa yedek font çizilir
+export const ensureFontsReady = async (styles: TextStyle[]) => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  const fonts = new Set(styles.map(s => buildFont(s, 32)));
+  await Promise.all(Array.from(fonts).map(font => document.fonts.load(font).catch(() => [])));
+};
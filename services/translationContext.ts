@@ -0,0 +1,92 @@
+
+import { MergedImage, OcrInput, TextRegion, TranslationContext, TranslationRunOptions } from '../types';
+import { regionToPixels } from './imageUtils';
+import { renderStripRect } from './stripTiles';
+import { translatedTextOf } from './regionTranslations';
+import { regionTypeOf } from './regionTypes';
+
+export const EMPTY_TRANSLATION_CONTEXT: TranslationContext = {
+  synopsis: '',
+  characterSheet: '',
+  previousChapter: ''
+};
+
+export const DEFAULT_RUN_OPTIONS: TranslationRunOptions = {
+  includeOrder: true,
+  includeSeriesInfo: false,
+  includePreviousChapter: false,
+  includeImages: false
+};
+
+// Görselli isteklerde bir partideki kutu sayısı düşük tutulur (istek boyutu ve maliyet)
+export const IMAGE_BATCH_SIZE = 8;
+
+// Kutunun çevresinden alınacak bağlam payı: kutu boyutunun bu katı, en az bu kadar piksel
+const CONTEXT_MARGIN_RATIO = 1;
+const CONTEXT_MIN_MARGIN = 150;
+// Gönderilen görselin en uzun kenarı
+const CONTEXT_MAX_SIZE = 512;
+// Önceki bölüm özeti için saklanan son satır sayısı
+const CHAPTER_ENDING_LINES = 12;
+
+/**
+ * Kutunun çevresindeki paneli küçültülmüş JPEG olarak keser; modelin hangi yazıyı
+ * çevirdiğini görebilmesi için kutu kırmızı çerçeveyle işaretlenir.
+ */
+export const renderRegionContextImage = async (strip: MergedImage, region: TextRegion) => {
+  const rect = regionToPixels(region, strip.width, strip.height);
+  const mx = Math.max(CONTEXT_MIN_MARGIN, rect.w * CONTEXT_MARGIN_RATIO);
+  const my = Math.max(CONTEXT_MIN_MARGIN, rect.h * CONTEXT_MARGIN_RATIO);
+  const x = Math.max(0, rect.x - mx);
+  const y = Math.max(0, rect.y - my);
+  const w = Math.min(strip.width, rect.x + rect.w + mx) - x;
+  const h = Math.min(strip.height, rect.y + rect.h + my) - y;
+  const scale = Math.min(1, CONTEXT_MAX_SIZE / Math.max(w, h));
+
+  const canvas = await renderStripRect(strip, { x, y, w, h }, scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.strokeStyle = '#ff0000';
+  ctx.lineWidth = 3;
+  ctx.strokeRect((rect.x - x) * scale, (rect.y - y) * scale, rect.w * scale, rect.h * scale);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// Seçilen seçeneklere göre isteğe gidecek kutu listesini okuma sırasıyla hazırlar
+export const buildTranslationItems = async (
+  strip: MergedImage,
+  regions: TextRegion[],
+  run: TranslationRunOptions,
+  onProgress?: (status: string) => void
+): Promise<OcrInput[]> => {
+  const sorted = [...regions].sort((a, b) => a.order - b.order);
+  const items: OcrInput[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const region = sorted[i];
+    if (run.includeImages) onProgress?.(`Panel görselleri hazırlanıyor: ${i + 1}/${sorted.length}`);
+    items.push({
+      id: region.id,
+      originalText: region.originalText,
+      type: regionTypeOf(region),
+      ...(run.includeOrder && { order: region.order }),
+      ...(run.includeImages && { image: await renderRegionContextImage(strip, region) })
+    });
+  }
+  return items;
+};
+
+export const buildRequestContext = (context: TranslationContext, run: TranslationRunOptions): Partial<TranslationContext> => ({
+  ...(run.includeSeriesInfo && { synopsis: context.synopsis, characterSheet: context.characterSheet }),
+  ...(run.includePreviousChapter && { previousChapter: context.previousChapter })
+});
+
+// Bölümün son satırlarını bir sonraki bölümde "önceki bölüm" bağlamı olarak kullanmak üzere özetler
+export const summarizeChapterEnding = (regions: TextRegion[], lang: string, lineCount = CHAPTER_ENDING_LINES) =>
+  [...regions]
+    .sort((a, b) => a.order - b.order)
+    .filter(r => r.originalText.trim())
+    .slice(-lineCount)
+    .map(r => {
+      const translated = translatedTextOf(r, lang).trim();
+      return translated ? `${r.originalText.trim()} → ${translated}` : r.originalText.trim();
+    })
+    .join('\n');
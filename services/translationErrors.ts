@@ -0,0 +1,62 @@
+
+// Sağlayıcıların HTTP durum koduyla birlikte fırlattığı hata; yeniden deneme kararı buna göre verilir
+export class TranslationRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'TranslationRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// İstek sunucuya hiç ulaşamadığında (bağlantı reddi, DNS, CORS) fırlatılır
+export class TranslationNetworkError extends TranslationRequestError {
+  constructor(message: string) {
+    super(`Sunucuya ulaşılamadı: ${message}`);
+    this.name = 'TranslationNetworkError';
+  }
+}
+
+/**
+ * Yalnızca isteği gönderen çağrıyı sarar: fetch ağ hatasında TypeError fırlatır. Yanıt işlenirken
+ * çıkan diğer hatalar olduğu gibi geçer, böylece yalnızca gerçek bağlantı sorunları yeniden denenir.
+ */
+export const withNetworkErrors = <T>(request: Promise<T>) =>
+  request.catch((err: unknown) => {
+    throw err instanceof TypeError ? new TranslationNetworkError(err.message) : err;
+  });
+
+// Ağ hataları, hız sınırı (429) ve sunucu tarafı (5xx) hatalar geçicidir
+export const isRetryableError = (err: unknown) => {
+  if (err instanceof TranslationNetworkError) return true;
+  // Gemini SDK'sının ApiError'ı da `status` alanı taşır
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && (status === 429 || (status >= 500 && status < 600));
+};
+
+// Retry-After başlığı saniye ya da HTTP tarihi olabilir
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Üstel geri çekilme; sunucu Retry-After verdiyse ona uyulur
+export const backoffDelay = (attempt: number, err: unknown) => {
+  if (err instanceof TranslationRequestError && err.retryAfterMs !== undefined) {
+    return Math.min(err.retryAfterMs, BACKOFF_MAX_MS);
+  }
+  return Math.min(BACKOFF_BASE_MS * 2 ** attempt + Math.random() * 250, BACKOFF_MAX_MS);
+};
+
+export const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
@@ -0,0 +1,182 @@
+
+import { TranslationMemoryEntry, TranslationMemoryOptions } from '../types';
+import { STORES, openDatabase, promisifyRequest, idbGetAllByIndex, idbCountByIndex, idbDeleteByIndex } from './indexedDb';
+import { escapeXml, parseXml, childElements, descendantElements, xmlLangCode, langFromXmlCode } from './xml';
+
+export const DEFAULT_MEMORY_OPTIONS: TranslationMemoryOptions = {
+  enabled: true,
+  fuzzyThreshold: 0.85
+};
+
+export interface MemoryMatch {
+  target: string;
+  score: number; // 1: birebir
+  source: string;
+}
+
+// Boşluk ve büyük/küçük harf farkları birebir eşleşmeyi bozmasın
+export const normalizeSegment = (text: string) =>
+  text.normalize('NFC').trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+
+const pairKey = (sourceLang: string, targetLang: string) => `${sourceLang}|${targetLang}`;
+
+const entryKey = (sourceLang: string, targetLang: string, source: string) =>
+  `${pairKey(sourceLang, targetLang)}|${normalizeSegment(source)}`;
+
+// Karakter düzeyinde Levenshtein benzerliği; boşluksuz yazılan dillerde de çalışır
+export const segmentSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+};
+
+export const loadMemory = (sourceLang: string, targetLang: string) =>
+  idbGetAllByIndex<TranslationMemoryEntry>(STORES.TRANSLATION_MEMORY, 'pair', pairKey(sourceLang, targetLang));
+
+export const countMemory = (sourceLang: string, targetLang: string) =>
+  idbCountByIndex(STORES.TRANSLATION_MEMORY, 'pair', pairKey(sourceLang, targetLang));
+
+export const clearMemory = (sourceLang: string, targetLang: string) =>
+  idbDeleteByIndex(STORES.TRANSLATION_MEMORY, 'pair', pairKey(sourceLang, targetLang));
+
+/**
+ * Her metin için en iyi bellek eşleşmesini bulur. Birebir eşleşme anahtarla, bulanık eşleşme
+ * uzunluk farkı zaten eşiği aşmayan kayıtlar arasında edit mesafesiyle aranır. Eşit benzerlikte
+ * elle düzeltilmiş çeviri tercih edilir.
+ */
+export const findMemoryMatches = (
+  entries: TranslationMemoryEntry[],
+  items: { id: string, text: string }[],
+  threshold: number
+) => {
+  const byKey = new Map(entries.map(e => [normalizeSegment(e.source), e]));
+  const normalized = entries.map(e => ({ entry: e, text: normalizeSegment(e.source) }));
+  const matches = new Map<string, MemoryMatch>();
+
+  items.forEach(item => {
+    const text = normalizeSegment(item.text);
+    if (!text) return;
+    const exact = byKey.get(text);
+    if (exact) {
+      matches.set(item.id, { target: exact.target, score: 1, source: exact.source });
+      return;
+    }
+    if (threshold >= 1) return;
+
+    let best: { entry: TranslationMemoryEntry, score: number } | null = null;
+    for (const { entry, text: candidate } of normalized) {
+      const longest = Math.max(text.length, candidate.length);
+      if (1 - Math.abs(text.length - candidate.length) / longest < threshold) continue;
+      const score = segmentSimilarity(text, candidate);
+      if (score < threshold) continue;
+      if (!best || score > best.score || (score === best.score && entry.origin === 'human' && best.entry.origin !== 'human')) {
+        best = { entry, score };
+      }
+    }
+    if (best) matches.set(item.id, { target: best.entry.target, score: best.score, source: best.entry.source });
+  });
+
+  return matches;
+};
+
+/**
+ * Çevirileri belleğe yazar. Model çıktısı elle düzeltilmiş bir kaydın üzerine yazılmaz;
+ * böylece bir kez düzeltilen satır sonraki bölümlerde de aynı kalır.
+ */
+export const saveMemoryEntries = async (
+  sourceLang: string,
+  targetLang: string,
+  segments: { source: string, target: string }[],
+  origin: TranslationMemoryEntry['origin']
+) => {
+  const valid = segments.filter(s => s.source.trim() && s.target.trim());
+  if (valid.length === 0) return;
+  const db = await openDatabase();
+  const store = db.transaction(STORES.TRANSLATION_MEMORY, 'readwrite').objectStore(STORES.TRANSLATION_MEMORY);
+  const now = Date.now();
+
+  await Promise.all(valid.map(async ({ source, target }) => {
+    const key = entryKey(sourceLang, targetLang, source);
+    const existing = await promisifyRequest<TranslationMemoryEntry | undefined>(store.get(key));
+    if (existing && existing.origin === 'human' && origin === 'machine') return;
+    const entry: TranslationMemoryEntry = {
+      key,
+      pair: pairKey(sourceLang, targetLang),
+      sourceLang,
+      targetLang,
+      source: source.trim(),
+      target: target.trim(),
+      origin,
+      updatedAt: now
+    };
+    await promisifyRequest(store.put(entry));
+  }));
+};
+
+const tmxDate = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+export const memoryToTmx = (entries: TranslationMemoryEntry[], sourceLang: string) => {
+  const units = entries.map(e => `    <tu changedate="${tmxDate(e.updatedAt)}">
+      <prop type="x-origin">${e.origin}</prop>
+      <tuv xml:lang="${xmlLangCode(e.sourceLang)}"><seg>${escapeXml(e.source)}</seg></tuv>
+      <tuv xml:lang="${xmlLangCode(e.targetLang)}"><seg>${escapeXml(e.target)}</seg></tuv>
+    </tu>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="Webtoon Master" creationtoolversion="1.0" segtype="sentence" o-tmf="webtoon-master" adminlang="en" srclang="${xmlLangCode(sourceLang)}" datatype="plaintext"/>
+  <body>
+${units.join('\n')}
+  </body>
+</tmx>
+`;
+};
+
+/**
+ * TMX içindeki, desteklenen dillerden oluşan her kaynak/hedef çiftini belleğe aktarır.
+ * Kaynak dil başlıktaki srclang'dir; yoksa her birimin ilk dili kaynak sayılır.
+ * Eklenen çift sayısını döndürür.
+ */
+export const importTmx = async (content: string) => {
+  const doc = parseXml(content);
+  const header = descendantElements(doc, 'header')[0];
+  const srclang = header?.getAttribute('srclang');
+
+  const byPair = new Map<string, { sourceLang: string, targetLang: string, segments: { source: string, target: string }[], origin: TranslationMemoryEntry['origin'] }>();
+  descendantElements(doc, 'tu').forEach(tu => {
+    const variants = childElements(tu, 'tuv').map(tuv => ({
+      lang: langFromXmlCode(tuv.getAttribute('xml:lang') || tuv.getAttribute('lang') || ''),
+      text: childElements(tuv, 'seg')[0]?.textContent || ''
+    })).filter(v => v.lang && v.text.trim());
+    const source = (srclang && srclang !== '*all*' && variants.find(v => v.lang === langFromXmlCode(srclang))) || variants[0];
+    if (!source) return;
+    // Dışarıdan gelen çeviriler, açıkça makine çevirisi işaretlenmemişse insan çevirisi sayılır
+    const origin = childElements(tu, 'prop').some(p => p.getAttribute('type') === 'x-origin' && p.textContent === 'machine') ? 'machine' : 'human';
+
+    variants.filter(v => v !== source).forEach(target => {
+      const key = `${pairKey(source.lang!, target.lang!)}|${origin}`;
+      if (!byPair.has(key)) byPair.set(key, { sourceLang: source.lang!, targetLang: target.lang!, segments: [], origin });
+      byPair.get(key)!.segments.push({ source: source.text, target: target.text });
+    });
+  });
+
+  let count = 0;
+  for (const { sourceLang, targetLang, segments, origin } of byPair.values()) {
+    await saveMemoryEntries(sourceLang, targetLang, segments, origin);
+    count += segments.length;
+  }
+  return count;
+};
@@ -0,0 +1,96 @@
+
+import { TranslationRequest, TranslationOutput } from '../types';
+import { findApplicableEntries, formatGlossaryForPrompt } from './glossaryService';
+import { DEFAULT_REGION_TYPE, REGION_TYPES, REGION_TYPE_INSTRUCTIONS, SFX_SUBTITLE_INSTRUCTION } from './regionTypes';
+
+const section = (title: string, body?: string) =>
+  body?.trim() ? `\n${title}:\n${body.trim()}\n` : '';
+
+// Tüm sağlayıcıların kullandığı ortak çeviri istemi
+export const buildTranslationPrompt = ({ items, sourceLang, targetLang, glossary = [], context = {}, sfxHandling = 'translate' }: TranslationRequest) => {
+  const glossaryEntries = findApplicableEntries(glossary, items.map(i => i.originalText));
+  const glossaryBlock = glossaryEntries.length > 0
+    ? `
+GLOSSARY (mandatory, always use these exact renderings and follow the notes):
+${formatGlossaryForPrompt(glossaryEntries)}
+`
+    : '';
+
+  const hasOrder = items.some(i => i.order !== undefined);
+  const hasImages = items.some(i => i.image);
+  // Tümü diyalog olan isteklerde tür bilgisi gönderilmez
+  const types = REGION_TYPES.map(t => t.id).filter(type => items.some(i => (i.type || DEFAULT_REGION_TYPE) === type));
+  const hasTypes = types.some(type => type !== DEFAULT_REGION_TYPE);
+  const contextBlock = [
+    section('SERIES SYNOPSIS', context.synopsis),
+    section('CHARACTERS', context.characterSheet),
+    section('PREVIOUS CHAPTER, LAST LINES (for continuity only, do not translate)', context.previousChapter)
+  ].join('');
+  const hints = [
+    hasOrder && "Items are listed in reading order ('order'). Use neighboring lines to work out who is speaking and keep the conversation consistent.",
+    hasTypes && `Each item has a 'type'. Translate it accordingly:\n${types.map(type =>
+      `- ${type}: ${type === 'sfx' && sfxHandling === 'subtitle' ? SFX_SUBTITLE_INSTRUCTION : REGION_TYPE_INSTRUCTIONS[type]}`
+    ).join('\n')}`,
+    hasImages && "For each item, an image of the panel around it follows this prompt, labeled with the item id and with the text marked by a red frame. Use it to judge the speaker, the tone (whisper, shout, thought) and whether the text is a sign or sound effect."
+  ].filter(Boolean).join('\n');
+
+  // Görseller istemin içine değil, sağlayıcıya ayrı parçalar olarak gönderilir
+  const data = items.map(({ id, order, originalText, type }) => ({
+    id,
+    ...(hasOrder && { order }),
+    ...(hasTypes && { type: type || DEFAULT_REGION_TYPE }),
+    originalText
+  }));
+
+  return `You are a professional webtoon translator.
+Below is a list of texts detected via OCR from a webtoon panel (Source: ${sourceLang}).
+Please provide a natural, high-quality translation for each item into ${targetLang}.
+Maintain the emotional tone and context of a comic/manga.
+${hints ? `${hints}\n` : ''}${contextBlock}${glossaryBlock}
+OCR DATA:
+${JSON.stringify(data)}
+
+Return ONLY a valid JSON array of objects with 'id' and 'translatedText' properties.`;
+};
+
+// Çok kipli isteklerde her kutunun görseli, id etiketiyle birlikte sırayla eklenir
+export const collectItemImages = ({ items }: TranslationRequest) =>
+  items
+    .filter(item => item.image)
+    .map(item => {
+      const [header, data] = item.image!.split(',');
+      return {
+        id: item.id,
+        dataUrl: item.image!,
+        mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg',
+        data
+      };
+    });
+
+// Metni boş, eksik ya da metin olmayan öğeler atılır; o kutular doğrulamada eksik sayılıp yeniden istenir
+const isRawTranslation = (item: unknown): item is TranslationOutput => {
+  if (typeof item !== 'object' || item === null) return false;
+  const { id, translatedText } = item as { id?: unknown, translatedText?: unknown };
+  return typeof id === 'string' && typeof translatedText === 'string' && translatedText.trim() !== '';
+};
+
+// Modelin döndürdüğü metni çözer; kod bloğu içine sarılmış ya da nesneyle sarmalanmış yanıtları da kabul eder
+export const parseTranslationResponse = (raw: string): TranslationOutput[] => {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!cleaned) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch (err) {
+    // Bozuk yanıt boş sayılır; kutular doğrulamada eksik çıkar ve yalnızca onlar yeniden istenir
+    console.warn('Model yanıtı JSON olarak çözülemedi:', err);
+    return [];
+  }
+  const wrapped = typeof parsed === 'object' && parsed !== null ? (parsed as { translations?: unknown }).translations : undefined;
+  const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(wrapped) ? wrapped : [];
+
+  return items
+    .filter(isRawTranslation)
+    .map(item => ({ id: item.id, translatedText: item.translatedText }));
+};
@@ -0,0 +1,180 @@
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OcrInput, TranslationProviderConfig } from '../types';
+import { chunkTranslationItems, translateOcrResults, validateTranslations } from './translationService';
+
+const item = (id: string, originalText = `text ${id}`): OcrInput => ({ id, originalText });
+
+describe('chunkTranslationItems', () => {
+  it('splits by item count', () => {
+    const batches = chunkTranslationItems(['a', 'b', 'c', 'd', 'e'].map(id => item(id)), 2, 1000);
+    expect(batches.map(b => b.map(i => i.id))).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('splits by total character count', () => {
+    const batches = chunkTranslationItems([item('a', 'x'.repeat(6)), item('b', 'x'.repeat(6)), item('c', 'x'.repeat(3))], 10, 10);
+    expect(batches.map(b => b.map(i => i.id))).toEqual([['a'], ['b', 'c']]);
+  });
+
+  it('keeps an item longer than the limit in its own batch', () => {
+    const batches = chunkTranslationItems([item('a', 'x'.repeat(50)), item('b')], 10, 10);
+    expect(batches.map(b => b.map(i => i.id))).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('validateTranslations', () => {
+  it('separates unknown ids and reports missing ones', () => {
+    const result = validateTranslations([item('a'), item('b'), item('c')], [
+      { id: 'a', translatedText: 'A' },
+      { id: 'zzz', translatedText: '?' },
+      { id: 'c', translatedText: 'C' },
+      { id: 'a', translatedText: 'again' }
+    ]);
+    expect(result.valid).toEqual([{ id: 'a', translatedText: 'A' }, { id: 'c', translatedText: 'C' }]);
+    expect(result.unknown).toEqual(['zzz']);
+    expect(result.missing).toEqual(['b']);
+  });
+});
+
+// OpenAI uyumlu sağlayıcı, sıradaki yanıtı kuyruktan alan yerel bir HTTP sunucusuna karşı çalıştırılır
+type MockReply = (ids: string[]) => { status?: number, headers?: Record<string, string>, content?: unknown };
+
+describe('translateOcrResults via openAiCompatibleProvider', () => {
+  let server: Server;
+  let config: TranslationProviderConfig;
+  let replies: MockReply[];
+  let requestedIds: string[][];
+
+  const echo: MockReply = ids => ({ content: ids.map(id => ({ id, translatedText: `tr ${id}` })) });
+
+  const handle = (req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const prompt: string = JSON.parse(body).messages[1].content;
+      const data: OcrInput[] = JSON.parse(prompt.match(/OCR DATA:\n(.*)\n/)![1]);
+      const ids = data.map(i => i.id);
+      requestedIds.push(ids);
+      const reply = (replies.shift() || echo)(ids);
+      const status = reply.status || 200;
+      res.writeHead(status, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(status === 200
+        ? JSON.stringify({ choices: [{ message: { content: typeof reply.content === 'string' ? reply.content : JSON.stringify(reply.content) } }] })
+        : JSON.stringify({ error: 'mock error' }));
+    });
+  };
+
+  const translate = (items: OcrInput[], options = {}) => translateOcrResults(
+    { items, sourceLang: 'English', targetLang: 'Turkish' },
+    config,
+    { maxItemsPerBatch: 2, maxRetries: 2, ...options }
+  );
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    config = { providerId: 'openai-compatible', model: 'test', baseUrl: `http://127.0.0.1:${port}/v1` };
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requestedIds = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('translates every batch and reports each one', async () => {
+    const onBatch = vi.fn();
+    const result = await translate([item('a'), item('b'), item('c')], { onBatch });
+    expect(requestedIds).toEqual([['a', 'b'], ['c']]);
+    expect(result.translated.map(t => t.translatedText)).toEqual(['tr a', 'tr b', 'tr c']);
+    expect(result.failed).toEqual([]);
+    expect(onBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for Retry-After before retrying a rate-limited batch', async () => {
+    replies = [() => ({ status: 429, headers: { 'Retry-After': '1' } })];
+    const onProgress = vi.fn();
+    const started = Date.now();
+    const result = await translate([item('a')], { onProgress });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+    expect(onProgress).toHaveBeenCalledWith(expect.stringContaining('1 sn sonra'));
+    expect(requestedIds).toEqual([['a'], ['a']]);
+    expect(result.translated).toEqual([{ id: 'a', translatedText: 'tr a' }]);
+  });
+
+  it('asks again only for ids the model left out', async () => {
+    replies = [() => ({ content: [{ id: 'a', translatedText: 'tr a' }, { id: 'zzz', translatedText: '?' }] })];
+    const result = await translate([item('a'), item('b')]);
+    expect(requestedIds).toEqual([['a', 'b'], ['b']]);
+    expect(result.translated.map(t => t.id)).toEqual(['a', 'b']);
+  });
+
+  it('fails items that stay missing after the last retry', async () => {
+    const empty: MockReply = () => ({ content: [] });
+    replies = [empty, empty, empty];
+    const result = await translate([item('a')]);
+    expect(requestedIds).toHaveLength(3);
+    expect(result.failed).toEqual([{ id: 'a', error: 'Model bu kutu için çeviri döndürmedi.' }]);
+  });
+
+  it('treats unparseable model output as missing instead of retrying it as a network error', async () => {
+    replies = [() => ({ content: 'not json' })];
+    const result = await translate([item('a')]);
+    expect(requestedIds).toEqual([['a'], ['a']]);
+    expect(result.translated).toEqual([{ id: 'a', translatedText: 'tr a' }]);
+  });
+
+  it('asks again for items whose translatedText is empty, missing or not a string', async () => {
+    replies = [() => ({
+      content: [
+        { id: 'a', translatedText: '' },
+        { id: 'b' },
+        { id: 'c', translatedText: null },
+        { id: 'd', translatedText: { text: 'x' } }
+      ]
+    })];
+    const result = await translate([item('a'), item('b'), item('c'), item('d')], { maxItemsPerBatch: 4 });
+    expect(requestedIds).toEqual([['a', 'b', 'c', 'd'], ['a', 'b', 'c', 'd']]);
+    expect(result.translated.map(t => t.translatedText)).toEqual(['tr a', 'tr b', 'tr c', 'tr d']);
+    expect(result.failed).toEqual([]);
+  });
+
+  it('fails the remaining batches on a non-retryable error', async () => {
+    replies = [echo, () => ({ status: 401 })];
+    const result = await translate([item('a'), item('b'), item('c'), item('d'), item('e')]);
+    expect(requestedIds).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(result.translated.map(t => t.id)).toEqual(['a', 'b']);
+    expect(result.failed.map(f => f.id)).toEqual(['c', 'd', 'e']);
+    expect(result.failed[0].error).toContain('401');
+  });
+
+  it('treats an unreachable server as a transient network error', async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise(resolve => closed.close(resolve));
+
+    const onBatch = vi.fn();
+    const result = await translateOcrResults(
+      { items: [item('a'), item('b'), item('c')], sourceLang: 'English', targetLang: 'Turkish' },
+      { ...config, baseUrl: `http://127.0.0.1:${port}/v1` },
+      { maxItemsPerBatch: 2, maxRetries: 0, onBatch }
+    );
+    // Geçici hata yalnızca kendi partisini düşürür; sonraki parti yine denenir
+    expect(onBatch).toHaveBeenCalledTimes(2);
+    expect(result.failed.map(f => f.id)).toEqual(['a', 'b', 'c']);
+    expect(result.failed[0].error).toContain('Sunucuya ulaşılamadı');
+  });
+});
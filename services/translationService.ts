@@ -0,0 +1,162 @@
+
+import { OcrInput, TranslationOutput, TranslationProvider, TranslationProviderConfig, TranslationProviderId, TranslationRequest } from '../types';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { mockProvider } from './mockTranslationService';
+import { backoffDelay, errorMessage, isRetryableError, sleep } from './translationErrors';
+
+export const TRANSLATION_PROVIDERS: TranslationProvider[] = [
+  geminiProvider,
+  openAiCompatibleProvider,
+  mockProvider
+];
+
+export const DEFAULT_PROVIDER_CONFIG: Omit<TranslationProviderConfig, 'apiKey'> = {
+  providerId: 'gemini',
+  model: geminiProvider.defaultModel
+};
+
+export const getTranslationProvider = (id: TranslationProviderId) =>
+  TRANSLATION_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+// API anahtarları proje dosyasına girmesin diye sağlayıcı başına tarayıcıda saklanır
+const apiKeyStorageKey = (id: TranslationProviderId) => `webtoon-master:api-key:${id}`;
+
+export const loadProviderApiKey = (id: TranslationProviderId) => {
+  try {
+    return localStorage.getItem(apiKeyStorageKey(id)) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveProviderApiKey = (id: TranslationProviderId, apiKey: string) => {
+  try {
+    if (apiKey) localStorage.setItem(apiKeyStorageKey(id), apiKey);
+    else localStorage.removeItem(apiKeyStorageKey(id));
+  } catch (e) {
+    console.error("API anahtarı kaydedilemedi:", e);
+  }
+};
+
+export interface BatchTranslationOptions {
+  maxItemsPerBatch?: number;
+  // Bir partideki kaynak metinlerin toplam karakter sınırı
+  maxCharsPerBatch?: number;
+  maxRetries?: number;
+  // Her parti bittiğinde çağrılır; sonuçlar hemen uygulanırsa yarıda kalan iş kaybolmaz
+  onBatch?: (translated: TranslationOutput[], failed: FailedTranslation[]) => void;
+  onProgress?: (status: string) => void;
+}
+
+export interface FailedTranslation {
+  id: string;
+  error: string;
+}
+
+export interface BatchTranslationResult {
+  translated: TranslationOutput[];
+  failed: FailedTranslation[];
+}
+
+const DEFAULT_BATCH_OPTIONS = {
+  maxItemsPerBatch: 40,
+  maxCharsPerBatch: 4000,
+  maxRetries: 4
+};
+
+export const chunkTranslationItems = (items: OcrInput[], maxItems: number, maxChars: number): OcrInput[][] => {
+  const batches: OcrInput[][] = [];
+  let current: OcrInput[] = [];
+  let chars = 0;
+  items.forEach(item => {
+    const length = item.originalText.length;
+    if (current.length > 0 && (current.length >= maxItems || chars + length > maxChars)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(item);
+    chars += length;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+// Yanıttaki her id'nin istekte bulunduğunu ve hiçbir kutunun atlanmadığını denetler
+export const validateTranslations = (items: OcrInput[], outputs: TranslationOutput[]) => {
+  const requested = new Set(items.map(i => i.id));
+  const seen = new Set<string>();
+  const valid: TranslationOutput[] = [];
+  const unknown: string[] = [];
+
+  outputs.forEach(output => {
+    if (!requested.has(output.id)) unknown.push(output.id);
+    else if (!seen.has(output.id)) {
+      seen.add(output.id);
+      valid.push(output);
+    }
+  });
+
+  return { valid, unknown, missing: items.filter(i => !seen.has(i.id)).map(i => i.id) };
+};
+
+/**
+ * Kutuları boyut sınırlı partiler halinde çevirir. Geçici hatalar (hız sınırı, ağ, 5xx) üstel
+ * geri çekilmeyle yeniden denenir; yanıtta eksik kalan kutular yalnızca kendileri için tekrar
+ * istenir. Kalıcı bir hata (örn. geçersiz API anahtarı) kalan tüm partileri başarısız sayar.
+ */
+export const translateOcrResults = async (
+  request: TranslationRequest,
+  config: TranslationProviderConfig,
+  options: BatchTranslationOptions = {}
+): Promise<BatchTranslationResult> => {
+  const result: BatchTranslationResult = { translated: [], failed: [] };
+  if (request.items.length === 0) return result;
+
+  const provider = getTranslationProvider(config.providerId);
+  const { maxItemsPerBatch, maxCharsPerBatch, maxRetries } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const batches = chunkTranslationItems(request.items, maxItemsPerBatch, maxCharsPerBatch);
+
+  const report = (translated: TranslationOutput[], failed: FailedTranslation[]) => {
+    result.translated.push(...translated);
+    result.failed.push(...failed);
+    if (translated.length > 0 || failed.length > 0) options.onBatch?.(translated, failed);
+  };
+
+  for (let b = 0; b < batches.length; b++) {
+    let remaining = batches[b];
+
+    for (let attempt = 0; remaining.length > 0; attempt++) {
+      options.onProgress?.(`${provider.name} ile çevriliyor: Parti ${b + 1}/${batches.length}`);
+      try {
+        const outputs = await provider.translate({ ...request, items: remaining }, config);
+        const { valid, missing, unknown } = validateTranslations(remaining, outputs);
+        if (unknown.length > 0) console.warn("Yanıtta istenmeyen kutu id'leri yok sayıldı:", unknown);
+        remaining = remaining.filter(item => missing.includes(item.id));
+
+        if (remaining.length > 0 && attempt >= maxRetries) {
+          report(valid, remaining.map(item => ({ id: item.id, error: 'Model bu kutu için çeviri döndürmedi.' })));
+          break;
+        }
+        report(valid, []);
+      } catch (err) {
+        console.error(`${provider.name} translation error:`, err);
+        if (!isRetryableError(err)) {
+          const failed = remaining.concat(batches.slice(b + 1).flat()).map(item => ({ id: item.id, error: errorMessage(err) }));
+          report([], failed);
+          return result;
+        }
+        if (attempt >= maxRetries) {
+          report([], remaining.map(item => ({ id: item.id, error: errorMessage(err) })));
+          break;
+        }
+        const delay = backoffDelay(attempt, err);
+        options.onProgress?.(`Geçici hata, ${Math.ceil(delay / 1000)} sn sonra tekrar denenecek (${attempt + 1}/${maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,28 @@
+
+import { SUPPORTED_LANGUAGES } from '../types';
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const parseXml = (content: string) => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('XML dosyası okunamadı.');
+  return doc;
+};
+
+// Ad alanı önekinden bağımsız olarak yerel ada göre alt öğeleri döndürür
+export const childElements = (parent: Element, localName: string) =>
+  Array.from(parent.children).filter(el => el.localName === localName);
+
+export const descendantElements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// xml:lang / srcLang gibi özniteliklerde dil adı yerine ISO kodu kullanılır
+export const xmlLangCode = (name: string) => SUPPORTED_LANGUAGES.find(l => l.name === name)?.code || name;
+export const langFromXmlCode = (code: string) =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code.split(/[-_]/)[0].toLowerCase())?.name;
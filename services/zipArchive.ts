@@ -0,0 +1,164 @@
+
+// Sıkıştırmasız (store) ZIP yazıcı ve store/deflate okuyucu. Görseller zaten sıkıştırılmış
+// olduğundan yazarken deflate kazanç sağlamaz; bu yüzden ek bir bağımlılık yerine yalnızca ZIP
+// kapsayıcı biçimi üretilir. Okurken deflate, tarayıcının DecompressionStream'i ile açılır.
+// ZIP64 desteklenmez: toplam boyut 4 GB'ı ve dosya sayısı 65535'i aşamaz.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS tarih/saat biçimi (2 saniye çözünürlük)
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const UTF8_FLAG = 0x0800;
+
+export const createZipArchive = async (entries: ZipEntry[], type = 'application/zip'): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    // Ek alan, yorum, disk no ve öznitelikler sıfır kalır
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type });
+};
+
+// Arşivdeki bir dosya; içerik yalnızca istendiğinde açılır
+export interface ZipReadEntry {
+  name: string;
+  size: number;
+  read: () => Promise<Blob>;
+}
+
+const END_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// Dizin sonu kaydı 22 bayttır; ardından en fazla 65535 baytlık arşiv yorumu gelebilir
+const MAX_END_RECORD = 22 + 0xffff;
+const ENCRYPTED_FLAG = 0x0001;
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const inflateRaw = (data: Blob) =>
+  new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+export const readZipArchive = async (blob: Blob): Promise<ZipReadEntry[]> => {
+  const tailStart = Math.max(0, blob.size - MAX_END_RECORD);
+  const tail = await readView(blob, tailStart, blob.size);
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('Geçerli bir ZIP arşivi değil.');
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  if (centralOffset === 0xffffffff) throw new Error('ZIP64 arşivleri desteklenmiyor.');
+
+  const central = await readView(blob, centralOffset, centralOffset + centralSize);
+  const utf8 = new TextDecoder();
+  const entries: ZipReadEntry[] = [];
+  let p = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(p, true) !== CENTRAL_SIGNATURE) throw new Error('ZIP dizini bozuk.');
+    const flags = central.getUint16(p + 8, true);
+    const method = central.getUint16(p + 10, true);
+    const compressedSize = central.getUint32(p + 20, true);
+    const size = central.getUint32(p + 24, true);
+    const nameLength = central.getUint16(p + 28, true);
+    const extraLength = central.getUint16(p + 30, true);
+    const commentLength = central.getUint16(p + 32, true);
+    const localOffset = central.getUint32(p + 42, true);
+    // UTF-8 bayrağı olmayan adlar da UTF-8 okunur; ASCII adlarda fark yoktur
+    const name = utf8.decode(new Uint8Array(central.buffer, central.byteOffset + p + 46, nameLength));
+    p += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (flags & ENCRYPTED_FLAG) throw new Error(`Şifreli dosya açılamaz: ${name}`);
+        if (method !== 0 && method !== 8) throw new Error(`Desteklenmeyen sıkıştırma yöntemi (${method}): ${name}`);
+        // Yerel başlıktaki ad ve ek alan uzunlukları dizindekinden farklı olabilir
+        const local = await readView(blob, localOffset, localOffset + 30);
+        if (local.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error(`ZIP kaydı bozuk: ${name}`);
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = blob.slice(dataStart, dataStart + compressedSize);
+        return method === 0 ? data : inflateRaw(data);
+      }
+    });
+  }
+  return entries;
+};
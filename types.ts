@@ -1,4 +1,44 @@
 
+// Orijinal yazının görselden nasıl silineceği
+export type CleanMode = 'sampled' | 'inpaint' | 'white' | 'none';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Dizgi ayarları; boyutlar birleştirilmiş görselin piksel ölçeğindedir
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number | 'auto';
+  bold: boolean;
+  italic: boolean;
+  fill: string;
+  strokeWidth: number;
+  strokeColor: string;
+  align: TextAlign;
+  lineHeight: number; // satır yüksekliği / font boyutu
+  rotation: number; // derece
+  vertical: boolean;
+  fitShape: 'rect' | 'ellipse';
+  hyphenate: boolean;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  style: Partial<TextStyle>;
+  builtIn?: boolean;
+}
+
+export interface CustomFont {
+  family: string;
+  blob: Blob;
+}
+
+// Kutudaki yazının türü; çeviri talimatını, varsayılan stili ve temizlemeyi belirler
+export type RegionType = 'dialogue' | 'narration' | 'thought' | 'sfx' | 'sign';
+
+// Ses efektleri: kısa yansıma sözcükle çevrilir ya da çizim korunup altına küçük açıklama yazılır
+export type SfxHandling = 'translate' | 'subtitle';
+
 export interface TextRegion {
   id: string;
   x: number; // percentage 0-100
@@ -6,10 +46,56 @@ export interface TextRegion {
   width: number; // percentage 0-100
   height: number; // percentage 0-100
   originalText: string;
-  translatedText: string;
+  // Hedef dil adına göre çeviriler; kutu, temizlik ve stil tüm dillerde ortaktır
+  translations: Record<string, RegionTranslation>;
   order: number;
+  type?: RegionType; // Belirtilmemişse diyalog
+  cleanMode?: CleanMode; // Belirtilmemişse türün varsayılanı
+  presetId?: string; // Belirtilmemişse türün varsayılan ön ayarı
+  style?: Partial<TextStyle>; // Ön ayarın üzerine yazılan alanlar
+  ocrEngine?: OcrEngineId; // Kaynak metni okuyan motor
+  ocrConfidence?: number; // 0-1; elle düzeltilen metinde silinir
+  notes?: string; // Çevirmen / redaktör notu; senaryo dosyalarıyla dışa ve içe aktarılır
+  comments?: RegionComment[]; // İnceleme yorumları; tüm dillerde ortaktır
+}
+
+// Kutunun bir hedef dildeki çevirisi ve o dildeki son çeviri çalıştırmasının durumu
+export interface RegionTranslation {
+  translatedText: string;
+  translationStatus?: TranslationStatus;
+  translationError?: string; // Son başarısız çeviri denemesinin hata mesajı
+  memoryMatch?: number; // Çeviri bellekten geldiyse benzerlik (1: birebir); elle düzeltilince silinir
+  reviewStatus?: ReviewStatus;
+}
+
+// İnceleme durumu; çevirisi boş kutu her zaman 'untranslated' sayılır (işaretlenmiş olanlar hariç)
+export type ReviewStatus = 'untranslated' | 'machine' | 'edited' | 'approved' | 'flagged';
+
+export interface RegionComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number;
+  parentId?: string; // Yanıtlanan yorum; yanıtlar tek seviyelidir
+  resolved?: boolean;
+}
+
+// Çeviri çalıştırmasındaki durum; 'pending' yarıda kalan bir çalıştırmadan sonra da kalabilir
+export type TranslationStatus = 'pending' | 'translated' | 'failed';
+
+// Otomatik algılamanın önerdiği, henüz kabul edilmemiş kutu
+export interface ProposedRegion {
+  id: string;
+  x: number; // percentage 0-100
+  y: number; // percentage 0-100
+  width: number; // percentage 0-100
+  height: number; // percentage 0-100
+  source: 'text' | 'bubble';
+  accepted: boolean;
 }
 
+export type DetectionMethod = 'text' | 'bubble' | 'both';
+
 export interface WebtoonImage {
   id: string;
   file: File;
@@ -21,6 +107,205 @@ export interface WebtoonImage {
   width?: number; // Birleştirme için orijinal genişlik
 }
 
+// Birleştirilmiş şeridin bir parçası (orijinal sayfa). Şerit tek bir dev görsel olarak
+// üretilmez; parçalar ortak piksel koordinat sisteminde üst üste dizilir.
+export interface StripTile {
+  pageId: string;
+  blob: Blob;
+  url: string;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MergedImage {
+  tiles: StripTile[];
+  regions: TextRegion[];
+  // Şeridin toplam boyutu; kutu yüzdeleri bu boyuta göredir
+  width: number;
+  height: number;
+}
+
+export type TranslationProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Çalışma anında seçilen çeviri sağlayıcısı (API anahtarı projeye değil localStorage'a yazılır)
+export interface TranslationProviderConfig {
+  providerId: TranslationProviderId;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export type OcrEngineId = 'tesseract' | 'gemini-vision';
+
+// Tanıma öncesinde kutu kesitine uygulanan işlemler
+export interface OcrPreprocessOptions {
+  enabled: boolean;
+  upscale: number; // Büyütme katı; 0: küçük kesitler otomatik büyütülür
+  binarize: boolean; // Uyarlamalı eşikleme ile siyah-beyaza çevirme
+  invert: 'auto' | 'always' | 'never'; // Koyu zemin üzerine açık yazı
+  padding: number; // Piksel; harfler kenara yapışıksa Tesseract ilk/son satırı kaçırır
+  deskew: boolean;
+  vertical: 'auto' | 'always' | 'never'; // Dikey model yalnızca CJK dillerinde kullanılır
+}
+
+// Projeyle kaydedilen OCR motoru seçimi (Gemini anahtarı çeviri sağlayıcısıyla ortaktır)
+export interface OcrEngineConfig {
+  engineId: OcrEngineId;
+  model: string;
+  preprocess: OcrPreprocessOptions;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-1
+}
+
+// Bir çalıştırma boyunca açık kalan motor oturumu; `recognize` en fazla `concurrency` kez eş zamanlı çağrılır
+export interface OcrSession {
+  concurrency: number;
+  recognize: (canvas: HTMLCanvasElement, hints: { vertical: boolean }) => Promise<OcrResult>;
+  terminate: () => Promise<void>;
+}
+
+export interface OcrEngine {
+  id: OcrEngineId;
+  name: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  // Görsel dil modelleri eşiklenmiş görüntüde daha kötü okur; motor seçilince ön işleme buna göre açılır
+  preprocessByDefault: boolean;
+  createSession: (sourceLang: string, config: OcrEngineConfig & { apiKey?: string }) => Promise<OcrSession>;
+}
+
+export interface OcrInput {
+  id: string;
+  originalText: string;
+  order?: number; // Okuma sırası; bağlam seçeneği açıkken gönderilir
+  image?: string; // Kutunun çevresindeki panelin JPEG data URL'i (çok kipli istek)
+  type?: RegionType;
+}
+
+export interface TranslationOutput {
+  id: string;
+  translatedText: string;
+}
+
+// Seri sözlüğü: kaynak terim her geçtiğinde çeviride zorunlu karşılık kullanılmalı
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  target: string;
+  notes?: string;
+}
+
+export interface GlossaryViolation {
+  entryId: string;
+  source: string;
+  expected: string;
+}
+
+// Bölümler ve projeler arasında paylaşılan çeviri belleği kaydı (IndexedDB)
+export interface TranslationMemoryEntry {
+  key: string; // pair + normalleştirilmiş kaynak metin
+  pair: string; // `${sourceLang}|${targetLang}`
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+  // Elle düzeltilmiş çeviri modelin çıktısıyla ezilmez
+  origin: 'human' | 'machine';
+  updatedAt: number;
+}
+
+export interface TranslationMemoryOptions {
+  enabled: boolean;
+  // 0-1; bu benzerliğin altındaki bulanık eşleşmeler kullanılmaz (1: yalnızca birebir)
+  fuzzyThreshold: number;
+}
+
+// Seri boyunca geçerli, projeyle kaydedilen bağlam bilgileri
+export interface TranslationContext {
+  synopsis: string;
+  characterSheet: string;
+  previousChapter: string; // Önceki bölümün son satırları
+}
+
+// Her çalıştırmada seçilebilen, maliyeti artıran bağlam seçenekleri
+export interface TranslationRunOptions {
+  includeOrder: boolean;
+  includeSeriesInfo: boolean;
+  includePreviousChapter: boolean;
+  includeImages: boolean;
+}
+
+export interface TranslationRequest {
+  items: OcrInput[];
+  sourceLang: string;
+  targetLang: string;
+  glossary?: GlossaryEntry[];
+  context?: Partial<TranslationContext>;
+  sfxHandling?: SfxHandling;
+}
+
+export interface TranslationProvider {
+  id: TranslationProviderId;
+  name: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  supportsImages: boolean;
+  translate: (request: TranslationRequest, config: TranslationProviderConfig) => Promise<TranslationOutput[]>;
+}
+
+// 'pages': orijinal sayfa sınırları, 'fixed': boşluklardan kesilen sabit yükseklikli dilimler
+export type ExportSliceMode = 'pages' | 'fixed';
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp';
+
+export type ExportArchive = 'zip' | 'cbz';
+
+export interface ExportOptions {
+  sliceMode: ExportSliceMode;
+  sliceHeight: number;
+  format: ExportFormat;
+  // 0-1 arası; PNG için kullanılmaz
+  quality: number;
+  // {n} sıra no, {total} toplam, {lang} hedef dil, {date} tarih
+  fileNamePattern: string;
+  archive: ExportArchive;
+}
+
+// 'webtoon': yukarıdan aşağıya, 'manga': sağdan sola, 'western': soldan sağa
+export type ReadingDirection = 'webtoon' | 'manga' | 'western';
+
+export interface ReadingOrderOptions {
+  direction: ReadingDirection;
+  // Açıkken eklenen ve silinen kutulardan sonra sıra okuma yönüne göre yeniden hesaplanır
+  auto: boolean;
+}
+
+// Editörde görsel üzerinde gösterilen katman: orijinal, dizgilenmiş çeviri veya ikisi bölünmüş
+export type PreviewMode = 'original' | 'translated' | 'split';
+
+// Projeyle birlikte kaydedilen kullanıcı ayarları
+export interface ProjectSettings {
+  sourceLang: string;
+  targetLang: string; // Editörde düzenlenen dil
+  targetLangs?: string[]; // Bölümün çevrildiği ve dışa aktarıldığı diller
+  translation: Omit<TranslationProviderConfig, 'apiKey'>;
+  glossary: GlossaryEntry[];
+  stylePresets: StylePreset[];
+  exportOptions?: ExportOptions;
+  context?: TranslationContext;
+  ocr?: OcrEngineConfig;
+  memory?: TranslationMemoryOptions;
+  readingOrder?: ReadingOrderOptions;
+  sfxHandling?: SfxHandling; // Çeviri istemini, temizliği ve dizgiyi birlikte belirler
+}
+
 export enum AppMode {
   UPLOAD = 'UPLOAD',
   MERGED_EDITOR = 'MERGED_EDITOR'